@@ -0,0 +1,273 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import App from './App';
+import { analyzeMedia, assembleDubTrack, fitSpeech, reviewTranslation, synthesizeSegments } from './services/dubbingService';
+import { saveProject } from './services/projectStore';
+import { TranscriptSegment, VideoAnalysis } from './types';
+
+vi.mock('./services/projectStore', () => ({
+  listProjects: vi.fn(async () => []),
+  saveProject: vi.fn(async () => {}),
+  loadProject: vi.fn(),
+  deleteProject: vi.fn(async () => {}),
+}));
+
+vi.mock('./services/dubbingService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./services/dubbingService')>()),
+  analyzeMedia: vi.fn(),
+  translateSegments: vi.fn(),
+  reviewTranslation: vi.fn(),
+  synthesizeSegments: vi.fn(),
+  fitSpeech: vi.fn(),
+  assembleDubTrack: vi.fn(),
+}));
+
+vi.mock('./utils/audioUtils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./utils/audioUtils')>()),
+  getMediaDuration: vi.fn(async () => 10),
+}));
+
+const SEGMENTS: TranscriptSegment[] = [
+  { id: 'seg-0', start: 0, end: 2, sourceText: 'Hello', translatedText: 'Olá', speakerId: 'S1' },
+];
+
+const ANALYSIS: VideoAnalysis = {
+  segments: SEGMENTS,
+  speakers: [{ id: 'S1', gender: 'female', age: 'adult' }],
+  sourceLanguage: 'en',
+};
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+const addVideo = (container: HTMLElement, name: string = 'clip.mp4') => {
+  const input = container.querySelector('input[type="file"][accept^="video"]') as HTMLInputElement;
+  fireEvent.change(input, { target: { files: [new File(['video'], name, { type: 'video/mp4' })] } });
+};
+
+const startBatch = () => fireEvent.click(screen.getByText('开始批量生成'));
+
+describe('App batch processing', () => {
+  beforeEach(() => {
+    URL.createObjectURL = vi.fn(() => 'blob:test');
+    URL.revokeObjectURL = vi.fn();
+    vi.mocked(synthesizeSegments).mockImplementation(async segments =>
+      segments.map(segment => ({ ...segment, audioUrl: `blob:${segment.id}` })));
+    vi.mocked(fitSpeech).mockImplementation(async segments => ({ segments, overflows: [] }));
+    vi.mocked(assembleDubTrack).mockResolvedValue('blob:dub');
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.clearAllMocks();
+  });
+
+  it('moves an item from pending through uploading to done', async () => {
+    const analysis = deferred<VideoAnalysis>();
+    vi.mocked(analyzeMedia).mockReturnValue(analysis.promise);
+    const { container } = render(<App />);
+
+    addVideo(container);
+    expect(screen.getByText('等待中 (Pending)')).toBeTruthy();
+
+    startBatch();
+    expect(await screen.findByText(/^上传中 \(Uploading\)/)).toBeTruthy();
+    expect(analyzeMedia).toHaveBeenCalledWith(expect.any(File), 'pt-BR', expect.objectContaining({ input: 'audio' }));
+
+    await act(async () => analysis.resolve(ANALYSIS));
+    expect(await screen.findByText('完成 (Done)')).toBeTruthy();
+    expect(synthesizeSegments).toHaveBeenCalledTimes(1);
+    expect(assembleDubTrack).toHaveBeenCalledWith(expect.any(Array), 10, expect.any(AbortSignal));
+  });
+
+  it('shows the source next to the translation and seeks to a line', async () => {
+    vi.mocked(analyzeMedia).mockResolvedValue({
+      ...ANALYSIS,
+      segments: [...SEGMENTS, { id: 'seg-1', start: 4.5, end: 6, sourceText: 'Goodbye', translatedText: 'Tchau', speakerId: 'S1' }],
+    });
+    const { container } = render(<App />);
+
+    addVideo(container);
+    startBatch();
+    expect(await screen.findByText('完成 (Done)')).toBeTruthy();
+    expect(screen.getByText('原文 (Source · en)')).toBeTruthy();
+
+    fireEvent.click(screen.getAllByTitle('跳转到此句 (Seek to line)')[1]);
+    expect(container.querySelector('video')!.currentTime).toBe(4.5);
+  });
+
+  it('reviews the fitted translations when QA is on and badges items with open issues', async () => {
+    vi.mocked(analyzeMedia).mockResolvedValue(ANALYSIS);
+    // A line rephrased to fit its slot is what the review has to see
+    vi.mocked(fitSpeech).mockImplementationOnce(async segments =>
+      ({ segments: segments.map(segment => ({ ...segment, translatedText: 'Oi' })), overflows: [] }));
+    vi.mocked(reviewTranslation).mockResolvedValue({ 'seg-0': [{ type: 'omission', message: 'Greeting dropped' }] });
+    const { container } = render(<App />);
+
+    fireEvent.click(screen.getByText('翻译质检 (QA Review)'));
+    addVideo(container);
+    startBatch();
+    expect(await screen.findByText('完成 (Done)')).toBeTruthy();
+    expect(reviewTranslation).toHaveBeenCalledWith(
+      [expect.objectContaining({ id: 'seg-0', translatedText: 'Oi' })], 'pt-BR', 'en', expect.any(AbortSignal));
+    expect(screen.getByTitle('待处理的质检问题 (Open QA issues)').textContent).toBe('1');
+
+    fireEvent.click(screen.getByTitle('标记为已处理 (Dismiss)'));
+    expect(screen.queryByTitle('待处理的质检问题 (Open QA issues)')).toBeNull();
+  });
+
+  it('marks a failed item as error and processes it again on retry', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(analyzeMedia).mockRejectedValueOnce(new Error('Quota exceeded'));
+    const { container } = render(<App />);
+
+    addVideo(container);
+    startBatch();
+    expect(await screen.findByText('失败 (Error)')).toBeTruthy();
+    expect(consoleError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Quota exceeded' }));
+    consoleError.mockRestore();
+
+    vi.mocked(analyzeMedia).mockResolvedValueOnce(ANALYSIS);
+    fireEvent.click(screen.getByTitle('重试 (Retry)'));
+    expect(await screen.findByText('完成 (Done)')).toBeTruthy();
+    expect(analyzeMedia).toHaveBeenCalledTimes(2);
+  });
+
+  it('cancels a running item by aborting its requests', async () => {
+    vi.mocked(analyzeMedia).mockImplementation((_file, _language, { signal }) =>
+      new Promise((_resolve, reject) => signal?.addEventListener('abort', () => reject(signal.reason))));
+    const { container } = render(<App />);
+
+    addVideo(container);
+    startBatch();
+    await screen.findByText(/^上传中 \(Uploading\)/);
+
+    fireEvent.click(screen.getByTitle('取消 (Cancel)'));
+    expect(await screen.findByText('已取消 (Cancelled)')).toBeTruthy();
+    expect(synthesizeSegments).not.toHaveBeenCalled();
+  });
+
+  it('aborts a re-dub when its item is removed', async () => {
+    vi.mocked(analyzeMedia).mockResolvedValue(ANALYSIS);
+    const { container } = render(<App />);
+    addVideo(container);
+    startBatch();
+    expect(await screen.findByText('完成 (Done)')).toBeTruthy();
+
+    let redubSignal: AbortSignal | undefined;
+    vi.mocked(synthesizeSegments).mockImplementationOnce((_segments, _voice, _speakerVoices, signal) => {
+      redubSignal = signal;
+      return new Promise((_resolve, reject) => signal?.addEventListener('abort', () => reject(signal.reason)));
+    });
+    fireEvent.change(screen.getByDisplayValue('Olá'), { target: { value: 'Olá de novo!' } });
+    fireEvent.click(screen.getByText('重新配音已修改的句子 (Re-dub changes)'));
+    expect(redubSignal?.aborted).toBe(false);
+
+    fireEvent.click(screen.getByTitle('移除 (Remove)'));
+    expect(redubSignal?.aborted).toBe(true);
+    await act(async () => {});
+    expect(assembleDubTrack).toHaveBeenCalledTimes(1);
+  });
+
+  it('queues items beyond the concurrency limit', async () => {
+    const first = deferred<VideoAnalysis>();
+    const second = deferred<VideoAnalysis>();
+    vi.mocked(analyzeMedia)
+      .mockReturnValueOnce(first.promise)
+      .mockReturnValueOnce(second.promise)
+      .mockResolvedValue(ANALYSIS);
+    const { container } = render(<App />);
+
+    addVideo(container, 'a.mp4');
+    addVideo(container, 'b.mp4');
+    addVideo(container, 'c.mp4');
+    startBatch();
+
+    // Two run at once by default; the third waits for a free slot
+    expect(await screen.findAllByText(/^上传中 \(Uploading\)/)).toHaveLength(2);
+    expect(screen.getByText('排队中 (Queued)')).toBeTruthy();
+    expect(analyzeMedia).toHaveBeenCalledTimes(2);
+
+    await act(async () => first.resolve(ANALYSIS));
+    expect(await screen.findAllByText('完成 (Done)')).toHaveLength(2);
+    expect(analyzeMedia).toHaveBeenCalledTimes(3);
+
+    await act(async () => second.resolve(ANALYSIS));
+    expect(await screen.findAllByText('完成 (Done)')).toHaveLength(3);
+  });
+});
+
+describe('App autosave', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    URL.createObjectURL = vi.fn(() => 'blob:test');
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.clearAllMocks();
+    vi.useRealTimers();
+  });
+
+  const flushAutosave = () => act(async () => {
+    await vi.advanceTimersByTimeAsync(1000);
+  });
+
+  it('saves a project that was emptied by removing its last item', async () => {
+    const { container } = render(<App />);
+    await flushAutosave();
+    expect(saveProject).not.toHaveBeenCalled();
+
+    addVideo(container);
+    await flushAutosave();
+    expect(vi.mocked(saveProject).mock.lastCall?.[0].items).toHaveLength(1);
+
+    fireEvent.click(screen.getByTitle('移除 (Remove)'));
+    await flushAutosave();
+    expect(saveProject).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(saveProject).mock.lastCall?.[0].items).toEqual([]);
+  });
+
+  it('does not save while only the status and progress of an item change', async () => {
+    const analysis = deferred<VideoAnalysis>();
+    vi.mocked(analyzeMedia).mockImplementation((_file, _language, { onProgress }) => {
+      onProgress?.('uploading', 0.5);
+      return analysis.promise;
+    });
+    const { container } = render(<App />);
+    addVideo(container);
+    await flushAutosave();
+    expect(saveProject).toHaveBeenCalledTimes(1);
+
+    startBatch();
+    await flushAutosave();
+    expect(screen.getByText(/^上传中 \(Uploading\)/)).toBeTruthy();
+    expect(saveProject).toHaveBeenCalledTimes(1);
+
+    await act(async () => analysis.resolve(ANALYSIS));
+    await flushAutosave();
+    expect(saveProject).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for a slow save before starting the next one', async () => {
+    const slow = deferred<void>();
+    vi.mocked(saveProject).mockReturnValueOnce(slow.promise);
+    const { container } = render(<App />);
+
+    addVideo(container, 'a.mp4');
+    await flushAutosave();
+    addVideo(container, 'b.mp4');
+    await flushAutosave();
+    expect(saveProject).toHaveBeenCalledTimes(1);
+
+    await act(async () => slow.resolve());
+    expect(saveProject).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(saveProject).mock.lastCall?.[0].items).toHaveLength(2);
+  });
+});
@@ -1,9 +1,92 @@
-import React, { useState } from 'react';
-import { Upload, Mic, Film, Globe, Loader2, PlayCircle, Download, Trash2, CheckCircle, AlertCircle, Play } from 'lucide-react';
-import VideoPlayer from './components/VideoPlayer';
-import { fileToBase64 } from './utils/audioUtils';
-import { translateVideoContent, generateSpeech, previewVoiceModel } from './services/geminiService';
-import { AppState, DubbingConfig, VOICES, BatchItem, ItemStatus, VOICE_SAMPLES } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Upload, Mic, Film, Globe, Loader2, PlayCircle, Download, Trash2, CheckCircle, AlertCircle, AlertTriangle, Play, FileText, Pause, X, RotateCcw } from 'lucide-react';
+import VideoPlayer, { VideoPlayerHandle } from './components/VideoPlayer';
+import BilingualView from './components/BilingualView';
+import TranscriptEditor from './components/TranscriptEditor';
+import ProjectList from './components/ProjectList';
+import GlossaryEditor from './components/GlossaryEditor';
+import StyleSettings from './components/StyleSettings';
+import { getMediaDuration } from './utils/audioUtils';
+import { parseSubtitles, cuesToSegments, formatTimestamp } from './utils/subtitleUtils';
+import { PROVIDERS, getProvider, defaultModels, setProvider, setGlossary, setTranslationStyle, setMaxSpeedUp, analyzeMedia, translateSegments, fitTranslations, reviewTranslation, synthesizeSegments, fitSpeech, findSpeechOverflows, assembleDubTrack, previewVoiceModel, setRequestsPerMinute } from './services/dubbingService';
+import { listProjects, saveProject, loadProject, deleteProject } from './services/projectStore';
+import { AppState, DubbingConfig, BatchItem, ItemStatus, TranscriptSegment, ProcessedResult, AnalysisInput, ModelSelection, SpeakerGender, SpeakerAge, ProjectSummary, SaveState, DEFAULT_TRANSLATION_STYLE, QaIssue, QaIssueType } from './types';
+import { LANGUAGES, getLanguage, suggestSpeakerVoices } from './languages';
+import { createJobQueue, JobContext, JobQueue, CancelledError } from './utils/jobQueue';
+import { countOpenIssues, recheckSegment } from './utils/translationQa';
+
+const GENDER_LABELS: Record<SpeakerGender, string> = {
+  male: '男 (M)',
+  female: '女 (F)',
+  unknown: '未知 (?)'
+};
+
+const AGE_LABELS: Record<SpeakerAge, string> = {
+  child: '儿童 (Child)',
+  young: '青年 (Young)',
+  adult: '成人 (Adult)',
+  senior: '老年 (Senior)',
+  unknown: '未知 (?)'
+};
+
+// Providers that need a key in the browser fall back to the offline one when none is set
+const DEFAULT_PROVIDER = PROVIDERS.find(p => !p.requiresApiKey || process.env.API_KEY) ?? PROVIDERS[0];
+
+const DEFAULT_CONFIG: DubbingConfig = {
+  targetLanguages: ['pt-BR'],
+  voiceName: 'Kore',
+  concurrency: 2,
+  requestsPerMinute: 30,
+  analysisInput: 'audio',
+  provider: DEFAULT_PROVIDER.id,
+  models: defaultModels(DEFAULT_PROVIDER),
+  glossary: [],
+  style: DEFAULT_TRANSLATION_STYLE,
+  qaReview: false,
+  maxSpeedUp: 1.15
+};
+
+// Statuses of an item that is being worked on right now
+const ACTIVE_STATUSES = [ItemStatus.UPLOADING, ItemStatus.TRANSLATING, ItemStatus.REVIEWING, ItemStatus.GENERATING_AUDIO];
+
+const DEFAULT_PROJECT_NAME = '未命名项目 (Untitled)';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * Releases every Object URL held by a batch item
+ */
+const revokeItemUrls = (item: BatchItem) => {
+  URL.revokeObjectURL(item.videoUrl);
+  for (const result of Object.values<ProcessedResult>(item.results ?? {})) {
+    if (result.audioUrl) URL.revokeObjectURL(result.audioUrl);
+    result.segments?.forEach(segment => segment.audioUrl && URL.revokeObjectURL(segment.audioUrl));
+  }
+};
+
+// Progress ticks and status changes while processing are not worth a save of their own
+const UNSAVED_ITEM_FIELDS: (keyof BatchItem)[] = ['progress', 'status'];
+
+const hasChangesToSave = (previous: BatchItem[], next: BatchItem[]): boolean =>
+  previous.length !== next.length || next.some((item, index) => {
+    const before = previous[index];
+    const fields = new Set([...Object.keys(before), ...Object.keys(item)] as (keyof BatchItem)[]);
+    return Array.from(fields).some(field => !UNSAVED_ITEM_FIELDS.includes(field) && before[field] !== item[field]);
+  });
+
+/**
+ * Open QA issues over every language of an item
+ */
+const countItemIssues = (item: BatchItem): number =>
+  Object.values<ProcessedResult>(item.results ?? {}).reduce((count, result) => count + countOpenIssues(result.qaIssues), 0);
+
+/**
+ * Uses the chosen voice when the language allows it, otherwise its first voice
+ */
+const resolveVoice = (language: string, voiceName: string): string => {
+  const { voices } = getLanguage(language);
+  return voices.includes(voiceName) ? voiceName : voices[0];
+};
 
 function App() {
   const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
@@ -13,18 +96,94 @@ function App() {
   
   // Voice Preview State
   const [previewingVoice, setPreviewingVoice] = useState<string | null>(null);
+
+  // Transcript Editor State
+  const [redubbingItemId, setRedubbingItemId] = useState<string | null>(null);
+  // Aborted when the item being re-dubbed is removed or cancelled
+  const redubRef = useRef<{ itemId: string; controller: AbortController } | null>(null);
   
-  const [config, setConfig] = useState<DubbingConfig>({
-    targetLanguage: 'pt-BR', 
-    voiceName: 'Kore'
-  });
+  const [config, setConfig] = useState<DubbingConfig>(DEFAULT_CONFIG);
+  const [selectedLanguage, setSelectedLanguage] = useState<string>('pt-BR');
+
+  // Project Persistence State
+  const [projectId, setProjectId] = useState(newId);
+  const projectIdRef = useRef(projectId);
+  projectIdRef.current = projectId;
+  const [projectName, setProjectName] = useState(DEFAULT_PROJECT_NAME);
+  const [projectCreatedAt, setProjectCreatedAt] = useState(Date.now);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  const isRestoringRef = useRef(false);
+  // Whether this project is in the store yet, so emptying it must be saved too
+  const isStoredRef = useRef(false);
+  // Saves run one after another so a slow one cannot overwrite newer state
+  const saveChainRef = useRef<Promise<void>>(Promise.resolve());
+  const playerRef = useRef<VideoPlayerHandle>(null);
+
+  // Batch Queue State
+  const batchItemsRef = useRef(batchItems);
+  batchItemsRef.current = batchItems;
+  // Changes only when something worth saving does
+  const savedItemsRef = useRef(batchItems);
+  if (hasChangesToSave(savedItemsRef.current, batchItems)) savedItemsRef.current = batchItems;
+  const savedItems = savedItemsRef.current;
+  const runJobRef = useRef<(id: string, context: JobContext) => Promise<void>>(async () => {});
+  const pausedFromRef = useRef<Record<string, ItemStatus>>({});
+  const queueRef = useRef<JobQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createJobQueue({
+      concurrency: DEFAULT_CONFIG.concurrency,
+      run: (id, context) => runJobRef.current(id, context),
+      onBusyChange: setIsProcessingBatch
+    });
+  }
+  const queue = queueRef.current;
+
+  useEffect(() => queue.setConcurrency(config.concurrency), [config.concurrency]);
+  useEffect(() => setRequestsPerMinute(config.requestsPerMinute), [config.requestsPerMinute]);
+  useEffect(() => setProvider(config.provider, config.models), [config.provider, config.models]);
+  useEffect(() => setGlossary(config.glossary), [config.glossary]);
+  useEffect(() => setTranslationStyle(config.style), [config.style]);
+  useEffect(() => setMaxSpeedUp(config.maxSpeedUp), [config.maxSpeedUp]);
+
+  const refreshProjects = () => {
+    listProjects().then(setProjects).catch(e => console.error("Could not list projects", e));
+  };
+
+  useEffect(refreshProjects, []);
+
+  // Autosave shortly after the last change; empty projects are only stored once they have items
+  useEffect(() => {
+    if (isRestoringRef.current) {
+      isRestoringRef.current = false;
+      return;
+    }
+    if (batchItems.length === 0 && !isStoredRef.current) return;
+
+    const timer = setTimeout(() => {
+      const project = { id: projectId, name: projectName, createdAt: projectCreatedAt, config, items: batchItemsRef.current };
+      setSaveState('saving');
+      saveChainRef.current = saveChainRef.current.then(async () => {
+        try {
+          await saveProject(project);
+          if (project.id === projectIdRef.current) isStoredRef.current = true;
+          setSaveState('saved');
+          refreshProjects();
+        } catch (e) {
+          console.error("Autosave failed", e);
+          setSaveState('error');
+        }
+      });
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [savedItems, config, projectName]);
 
   const handleFilesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (files && files.length > 0) {
       // Explicitly type file as File to avoid inference errors
       const newItems: BatchItem[] = Array.from(files).map((file: File) => ({
-        id: Math.random().toString(36).substr(2, 9),
+        id: newId(),
         file,
         videoUrl: URL.createObjectURL(file),
         status: ItemStatus.PENDING
@@ -38,72 +197,390 @@ function App() {
     }
   };
 
+  const abortRedub = (itemId?: string) => {
+    const redub = redubRef.current;
+    if (redub && (itemId === undefined || redub.itemId === itemId)) redub.controller.abort(new CancelledError());
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const project = await loadProject(id);
+      abortRedub();
+      batchItems.forEach(revokeItemUrls);
+      isRestoringRef.current = true;
+      isStoredRef.current = true;
+      setProjectId(project.id);
+      setProjectName(project.name);
+      setProjectCreatedAt(project.createdAt);
+      setConfig({ ...DEFAULT_CONFIG, ...project.config });
+      setBatchItems(project.items);
+      setSelectedItemId(project.items[0]?.id ?? null);
+      setSaveState('saved');
+    } catch (e: any) {
+      console.error(e);
+      setProcessingError(e.message || "Unknown error");
+    }
+  };
+
+  const handleNewProject = () => {
+    abortRedub();
+    batchItems.forEach(revokeItemUrls);
+    isStoredRef.current = false;
+    setProjectId(newId());
+    setProjectName(DEFAULT_PROJECT_NAME);
+    setProjectCreatedAt(Date.now());
+    setConfig(DEFAULT_CONFIG);
+    setBatchItems([]);
+    setSelectedItemId(null);
+    setSaveState('idle');
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      refreshProjects();
+    } catch (e) {
+      console.error("Could not delete project", e);
+    }
+  };
+
   const removeBatchItem = (id: string) => {
+    queue.cancel(id);
+    abortRedub(id);
+    const removed = batchItems.find(item => item.id === id);
+    if (removed) revokeItemUrls(removed);
     setBatchItems(prev => prev.filter(item => item.id !== id));
     if (selectedItemId === id) {
       setSelectedItemId(null);
     }
   };
 
-  const processItem = async (item: BatchItem): Promise<BatchItem> => {
+  const handleSubtitleImport = async (itemId: string, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const cues = parseSubtitles(await file.text());
+      if (cues.length === 0) throw new Error("No cues found in subtitle file / 字幕文件中没有可用的字幕");
+      const importedSegments = cuesToSegments(cues);
+      setBatchItems(prev => prev.map(i => i.id === itemId ? {
+        ...i,
+        importedSegments,
+        subtitleFileName: file.name,
+        subtitleLanguage: config.targetLanguages[0],
+        error: undefined
+      } : i));
+    } catch (e: any) {
+      console.error(e);
+      setBatchItems(prev => prev.map(i => i.id === itemId ? { ...i, error: e.message || "Unknown error" } : i));
+    }
+  };
+
+  const processItem = async (item: BatchItem, context: JobContext): Promise<BatchItem> => {
+    // Results for languages finished earlier are kept, so a retry only fills the gaps
+    const results: Record<string, ProcessedResult> = { ...item.results };
     try {
-        // Update status to processing steps
-        const updateStatus = (status: ItemStatus) => {
-             setBatchItems(prev => prev.map(i => i.id === item.id ? { ...i, status } : i));
+        // Update status to processing steps, stopping first if paused or cancelled
+        const updateStatus = async (status: ItemStatus) => {
+             await context.checkpoint();
+             setBatchItems(prev => prev.map(i => i.id === item.id ? { ...i, status, progress: undefined } : i));
         };
+        let speakers = item.speakers;
+        let speakerVoices = item.speakerVoices;
+        const publishResults = () => {
+             setBatchItems(prev => prev.map(i => i.id === item.id ? { ...i, results: { ...results }, speakers, speakerVoices } : i));
+        };
+
+        // The first analysis (timing, source text, speakers) is shared by every target language
+        let analysis: TranscriptSegment[] | undefined = Object.values(results)[0]?.segments;
+        let sourceLanguage = Object.values(results)[0]?.sourceLanguage;
+        if (item.importedSegments) {
+            analysis = item.importedSegments.map(s => ({ ...s, sourceText: s.sourceText || s.translatedText }));
+            sourceLanguage = item.subtitleLanguage;
+        }
+        let duration: number | undefined;
 
-        updateStatus(ItemStatus.UPLOADING);
-        const base64Video = await fileToBase64(item.file);
+        for (const language of config.targetLanguages) {
+            if (results[language]) continue;
+            // Speaking budgets of the last line run to the end of the video
+            if (duration === undefined) duration = await getMediaDuration(item.videoUrl);
+
+            let segments: TranscriptSegment[];
+            // Imported subtitles in this language are used as written, never rephrased
+            const isImported = !!item.importedSegments && item.subtitleLanguage === language;
+            if (isImported) {
+                segments = item.importedSegments!;
+            } else if (analysis) {
+                await updateStatus(ItemStatus.TRANSLATING);
+                segments = await translateSegments(analysis, language, context.signal, duration);
+            } else {
+                await updateStatus(ItemStatus.UPLOADING);
+                const videoAnalysis = await analyzeMedia(item.file, language, {
+                    input: config.analysisInput,
+                    signal: context.signal,
+                    checkpoint: context.checkpoint,
+                    onProgress: (stage, fraction) => {
+                        const status = stage === 'uploading' ? ItemStatus.UPLOADING : ItemStatus.TRANSLATING;
+                        const progress = Math.round(fraction * 100);
+                        // A pause shows right away even though the current request finishes
+                        setBatchItems(prev => prev.map(i => i.id === item.id && i.status !== ItemStatus.PAUSED ? { ...i, status, progress } : i));
+                    },
+                });
+                segments = videoAnalysis.segments;
+                analysis = segments;
+                speakers = videoAnalysis.speakers;
+                sourceLanguage = videoAnalysis.sourceLanguage;
+            }
+            if (!isImported) segments = await fitTranslations(segments, language, duration, context.signal);
+
+            await updateStatus(ItemStatus.GENERATING_AUDIO);
+            const voiceName = resolveVoice(language, config.voiceName);
+            if (!speakerVoices && speakers && speakers.length > 0) {
+                speakerVoices = suggestSpeakerVoices(speakers, getLanguage(language).voices, voiceName);
+            }
+            let voicedSegments = await synthesizeSegments(segments, voiceName, speakerVoices, context.signal);
+            let overflows = findSpeechOverflows(voicedSegments, duration);
+            if (!isImported) {
+                ({ segments: voicedSegments, overflows } = await fitSpeech(voicedSegments, language, voiceName, speakerVoices, duration, context.signal));
+            }
 
-        updateStatus(ItemStatus.TRANSLATING);
-        const translatedText = await translateVideoContent(base64Video, item.file.type, config.targetLanguage);
+            // Reviewed after fitSpeech, which may rephrase lines that ran too long
+            let qaIssues: Record<string, QaIssue[]> | undefined;
+            if (config.qaReview) {
+                await updateStatus(ItemStatus.REVIEWING);
+                qaIssues = await reviewTranslation(voicedSegments, language, sourceLanguage, context.signal);
+                await updateStatus(ItemStatus.GENERATING_AUDIO);
+            }
+            const audioUrl = await assembleDubTrack(voicedSegments, duration, context.signal);
 
-        updateStatus(ItemStatus.GENERATING_AUDIO);
-        const audioUrl = await generateSpeech(translatedText, config.voiceName);
+            results[language] = {
+                targetLanguage: language,
+                sourceLanguage,
+                originalTranscript: voicedSegments.map(s => s.sourceText).join('\n'),
+                translatedText: voicedSegments.map(s => s.translatedText).join('\n'),
+                segments: voicedSegments,
+                audioUrl,
+                duration,
+                voiceName,
+                qaIssues,
+                overflows
+            };
+            publishResults();
+        }
 
-        updateStatus(ItemStatus.COMPLETED);
         return {
             ...item,
             status: ItemStatus.COMPLETED,
-            result: {
-                translatedText,
-                audioUrl
-            }
+            error: undefined,
+            results,
+            speakers,
+            speakerVoices
         };
 
     } catch (e: any) {
+        // Aborted requests reject with whatever error their client raises
+        if (e instanceof CancelledError || context.signal.aborted) {
+            return { ...item, status: ItemStatus.CANCELLED, error: undefined, results };
+        }
         console.error(e);
         return {
             ...item,
             status: ItemStatus.ERROR,
+            results,
             error: e.message || "Unknown error"
         };
     }
   };
 
-  const handleProcessBatch = async () => {
-    setIsProcessingBatch(true);
+  const isItemDone = (item: BatchItem) =>
+    config.targetLanguages.every(language => item.results?.[language]);
+
+  runJobRef.current = async (id: string, context: JobContext) => {
+    const item = batchItemsRef.current.find(i => i.id === id);
+    if (!item) return;
+
+    const resultItem = await processItem(item, context);
+    delete pausedFromRef.current[id];
+
+    // Removed while running: nothing shows this item any more
+    if (!batchItemsRef.current.some(i => i.id === id)) {
+      revokeItemUrls(resultItem);
+      return;
+    }
+
+    // Merge into the latest item, so edits made while the job ran are kept.
+    // Every finished language was published already; those copies win.
+    setBatchItems(prev => prev.map(i => i.id === id ? {
+      ...i,
+      status: resultItem.status,
+      error: resultItem.error,
+      progress: undefined,
+      results: { ...resultItem.results, ...i.results },
+      speakers: i.speakers ?? resultItem.speakers,
+      speakerVoices: i.speakerVoices ?? resultItem.speakerVoices,
+    } : i));
+  };
+
+  const setItemStatus = (ids: string[], status: ItemStatus) => {
+    setBatchItems(prev => prev.map(i => ids.includes(i.id) ? { ...i, status, error: undefined } : i));
+  };
+
+  const enqueueItems = (items: BatchItem[]) => {
+    const ids = items.filter(i => !queue.has(i.id)).map(i => i.id);
+    setItemStatus(ids, ItemStatus.QUEUED);
+    ids.forEach(queue.enqueue);
+  };
+
+  const handleProcessBatch = () => {
     setProcessingError('');
+    enqueueItems(batchItems.filter(i => !isItemDone(i)));
+  };
 
-    // Process sequentially to avoid rate limits
-    for (const item of batchItems) {
-        if (item.status === ItemStatus.COMPLETED) continue; // Skip done
-        
-        // Mark as current processing (visual logic handled by status updates inside processItem)
-        const resultItem = await processItem(item);
-        
-        // Update state with result
-        setBatchItems(prev => prev.map(i => i.id === item.id ? resultItem : i));
+  const handleRetryFailed = () => {
+    enqueueItems(batchItems.filter(i => i.status === ItemStatus.ERROR || i.status === ItemStatus.CANCELLED));
+  };
+
+  const handlePauseItem = (item: BatchItem) => {
+    pausedFromRef.current[item.id] = item.status;
+    queue.pause(item.id);
+    setItemStatus([item.id], ItemStatus.PAUSED);
+  };
+
+  const handleResumeItem = (item: BatchItem) => {
+    queue.resume(item.id);
+    setItemStatus([item.id], pausedFromRef.current[item.id] || ItemStatus.QUEUED);
+    delete pausedFromRef.current[item.id];
+  };
+
+  const handleCancelItem = (item: BatchItem) => {
+    abortRedub(item.id);
+    // A running job stops at its next step and reports CANCELLED itself
+    if (!queue.cancel(item.id)) {
+      setItemStatus([item.id], ItemStatus.CANCELLED);
+    }
+    delete pausedFromRef.current[item.id];
+  };
+
+  const handleCancelAll = () => {
+    abortRedub();
+    // Running jobs report CANCELLED themselves once their requests abort
+    setItemStatus(queue.cancelAll(), ItemStatus.CANCELLED);
+    pausedFromRef.current = {};
+  };
+
+  const updateResult = (itemId: string, language: string, update: (result: ProcessedResult) => ProcessedResult) => {
+    setBatchItems(prev => prev.map(i => {
+      const result = i.results?.[language];
+      if (i.id !== itemId || !result) return i;
+      return { ...i, results: { ...i.results, [language]: update(result) } };
+    }));
+  };
+
+  const handleSegmentChange = (itemId: string, language: string, updated: TranscriptSegment) => {
+    updateResult(itemId, language, result => {
+      // Edited lines are checked again, so fixed problems disappear on their own
+      const qaIssues = result.qaIssues && {
+        ...result.qaIssues,
+        [updated.id]: recheckSegment(updated, result.qaIssues[updated.id], { sourceLanguage: result.sourceLanguage, targetLanguage: language }),
+      };
+      const segments = (result.segments || []).map(segment => {
+        if (segment.id !== updated.id) return segment;
+        // Changed wording invalidates the synthesized clip for this line only
+        if (segment.translatedText !== updated.translatedText && segment.audioUrl) {
+          URL.revokeObjectURL(segment.audioUrl);
+          return { ...updated, audioUrl: undefined, audioDuration: undefined };
+        }
+        return updated;
+      });
+      return { ...result, segments, qaIssues, hasPendingEdits: true };
+    });
+  };
+
+  const handleDismissIssue = (itemId: string, language: string, segmentId: string, type: QaIssueType) => {
+    updateResult(itemId, language, result => ({
+      ...result,
+      qaIssues: {
+        ...result.qaIssues,
+        [segmentId]: (result.qaIssues?.[segmentId] ?? []).map(issue => issue.type === type ? { ...issue, dismissed: true } : issue),
+      },
+    }));
+  };
+
+  const handleRedub = async (item: BatchItem, language: string) => {
+    const result = item.results?.[language];
+    if (!result?.segments || redubbingItemId) return;
+
+    const controller = new AbortController();
+    redubRef.current = { itemId: item.id, controller };
+    setRedubbingItemId(item.id);
+    let voicedSegments: TranscriptSegment[] = [];
+    let audioUrl: string | undefined;
+    try {
+      voicedSegments = await synthesizeSegments(result.segments, result.voiceName || resolveVoice(language, config.voiceName), item.speakerVoices, controller.signal);
+      audioUrl = await assembleDubTrack(voicedSegments, result.duration, controller.signal);
+      // Removed or cancelled meanwhile: nothing shows this result any more
+      if (controller.signal.aborted || !batchItemsRef.current.some(i => i.id === item.id)) throw new CancelledError();
+      if (result.audioUrl) URL.revokeObjectURL(result.audioUrl);
+
+      updateResult(item.id, language, current => ({
+        ...current,
+        segments: voicedSegments,
+        translatedText: voicedSegments.map(s => s.translatedText).join('\n'),
+        audioUrl,
+        overflows: findSpeechOverflows(voicedSegments, result.duration),
+        hasPendingEdits: false
+      }));
+      setBatchItems(prev => prev.map(i => i.id === item.id ? { ...i, error: undefined } : i));
+    } catch (e: any) {
+      // Clips and track made by this re-dub are unreachable once it fails
+      if (audioUrl) URL.revokeObjectURL(audioUrl);
+      voicedSegments
+        .filter(segment => segment.audioUrl && !result.segments!.some(s => s.audioUrl === segment.audioUrl))
+        .forEach(segment => URL.revokeObjectURL(segment.audioUrl!));
+      if (e instanceof CancelledError || controller.signal.aborted) return;
+      console.error(e);
+      setBatchItems(prev => prev.map(i => i.id === item.id ? { ...i, error: e.message || "Unknown error" } : i));
+    } finally {
+      if (redubRef.current?.controller === controller) redubRef.current = null;
+      setRedubbingItemId(null);
     }
+  };
+
+  const handleSpeakerVoiceChange = (itemId: string, speakerId: string, voice: string) => {
+    setBatchItems(prev => prev.map(i => {
+      if (i.id !== itemId) return i;
+      // Lines of this speaker need to be synthesized again in every language
+      const results: Record<string, ProcessedResult> = {};
+      for (const [language, result] of Object.entries<ProcessedResult>(i.results ?? {})) {
+        let changed = false;
+        const segments = (result.segments || []).map(segment => {
+          if (segment.speakerId !== speakerId || !segment.audioUrl) return segment;
+          URL.revokeObjectURL(segment.audioUrl);
+          changed = true;
+          return { ...segment, audioUrl: undefined, audioDuration: undefined };
+        });
+        results[language] = changed ? { ...result, segments, hasPendingEdits: true } : result;
+      }
+      return { ...i, results, speakerVoices: { ...i.speakerVoices, [speakerId]: voice } };
+    }));
+  };
 
-    setIsProcessingBatch(false);
+  const toggleLanguage = (code: string) => {
+    const selected = config.targetLanguages.includes(code);
+    // At least one target language must stay selected
+    if (selected && config.targetLanguages.length === 1) return;
+    const targetLanguages = selected
+      ? config.targetLanguages.filter(l => l !== code)
+      : [...config.targetLanguages, code];
+    setConfig({ ...config, targetLanguages });
   };
 
   const handlePreviewVoice = async (voice: string) => {
       if (previewingVoice) return;
       try {
           setPreviewingVoice(voice);
-          const text = VOICE_SAMPLES[config.targetLanguage];
+          const text = getLanguage(config.targetLanguages[0]).sampleSentence;
           const url = await previewVoiceModel(text, voice);
           const audio = new Audio(url);
           audio.onended = () => setPreviewingVoice(null);
@@ -115,6 +592,14 @@ function App() {
   };
 
   const selectedItem = batchItems.find(i => i.id === selectedItemId);
+  const selectedResults = selectedItem?.results || {};
+  const activeLanguage = selectedResults[selectedLanguage] ? selectedLanguage : Object.keys(selectedResults)[0];
+  const activeResult = activeLanguage ? selectedResults[activeLanguage] : undefined;
+
+  // Only offer voices that every selected language supports
+  const availableVoices = config.targetLanguages
+    .map(code => getLanguage(code).voices)
+    .reduce((common, voices) => common.filter(v => voices.includes(v)));
 
   return (
     <div className="min-h-screen bg-slate-900 text-slate-200">
@@ -139,6 +624,25 @@ function App() {
         {/* Left Column: Config & Batch List */}
         <div className="lg:col-span-4 space-y-6">
             
+            <ProjectList
+                projects={projects}
+                currentProjectId={projectId}
+                projectName={projectName}
+                saveState={saveState}
+                disabled={isProcessingBatch}
+                onRename={setProjectName}
+                onOpen={handleOpenProject}
+                onDelete={handleDeleteProject}
+                onNew={handleNewProject}
+            />
+
+            {processingError && (
+                <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start gap-2 text-red-400 text-xs">
+                    <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
+                    {processingError}
+                </div>
+            )}
+
             {/* Uploader */}
             <div className="bg-slate-800/50 border border-slate-700 rounded-2xl p-6">
                 <h3 className="text-lg font-bold text-white mb-4 flex items-center gap-2">
@@ -163,22 +667,37 @@ function App() {
                 
                 <div className="space-y-4">
                   <div>
-                    <label className="block text-sm font-medium text-slate-400 mb-2">目标语言 (Target Language)</label>
-                    <select 
-                      value={config.targetLanguage}
-                      onChange={(e) => setConfig({...config, targetLanguage: e.target.value as any})}
-                      className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
-                      disabled={isProcessingBatch}
-                    >
-                      <option value="pt-BR">巴西葡萄牙语 (Portuguese BR)</option>
-                      <option value="es-419">拉美西班牙语 (Spanish LatAm)</option>
-                    </select>
+                    <label className="block text-sm font-medium text-slate-400 mb-2">目标语言 (Target Languages)</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {LANGUAGES.map(language => {
+                        const checked = config.targetLanguages.includes(language.code);
+                        return (
+                          <label
+                            key={language.code}
+                            className={`
+                                flex items-center gap-2 px-3 py-2 rounded-lg text-xs font-medium cursor-pointer transition-colors
+                                ${checked ? 'bg-blue-600/20 text-white border border-blue-500/50' : 'bg-slate-900 text-slate-400 border border-slate-800 hover:bg-slate-700'}
+                                ${isProcessingBatch ? 'opacity-50 pointer-events-none' : ''}
+                            `}
+                          >
+                            <input
+                              type="checkbox"
+                              checked={checked}
+                              onChange={() => toggleLanguage(language.code)}
+                              disabled={isProcessingBatch}
+                              className="accent-blue-500"
+                            />
+                            <span className="truncate">{language.displayName}</span>
+                          </label>
+                        );
+                      })}
+                    </div>
                   </div>
 
                   <div>
                     <label className="block text-sm font-medium text-slate-400 mb-2">声音模型 (Voice Model)</label>
                     <div className="grid grid-cols-2 gap-2">
-                      {VOICES[config.targetLanguage].map(voice => (
+                      {availableVoices.map(voice => (
                         <div key={voice} className="relative group">
                             <button
                             onClick={() => setConfig({...config, voiceName: voice})}
@@ -204,6 +723,158 @@ function App() {
                       ))}
                     </div>
                   </div>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="block text-sm font-medium text-slate-400">
+                      并发数 (Concurrency)
+                      <input
+                        type="number"
+                        min="1"
+                        max="8"
+                        value={config.concurrency}
+                        onChange={(e) => setConfig({...config, concurrency: Math.min(8, Math.max(1, parseInt(e.target.value, 10) || 1))})}
+                        className="mt-2 w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                      />
+                    </label>
+                    <label className="block text-sm font-medium text-slate-400">
+                      每分钟请求 (Req/min)
+                      <input
+                        type="number"
+                        min="1"
+                        max="600"
+                        value={config.requestsPerMinute}
+                        onChange={(e) => setConfig({...config, requestsPerMinute: Math.min(600, Math.max(1, parseInt(e.target.value, 10) || 1))})}
+                        className="mt-2 w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                      />
+                    </label>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-2">识别输入 (Analysis Input)</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {([
+                        ['audio', '仅音频 (Audio only)'],
+                        ['video', '完整视频 (Full video)'],
+                      ] as [AnalysisInput, string][]).map(([input, label]) => (
+                        <button
+                          key={input}
+                          onClick={() => setConfig({...config, analysisInput: input})}
+                          disabled={isProcessingBatch}
+                          className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${config.analysisInput === input ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400 hover:bg-slate-700'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {config.analysisInput === 'audio'
+                        ? '上传 16kHz 单声道音轨，体积更小 (Smaller, cheaper upload)'
+                        : '画面可帮助理解语境 (On-screen context helps translation)'}
+                    </p>
+                  </div>
+
+                  <label className="flex items-start gap-2 text-sm font-medium text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={config.qaReview}
+                      onChange={(e) => setConfig({...config, qaReview: e.target.checked})}
+                      disabled={isProcessingBatch}
+                      className="accent-blue-500 mt-1"
+                    />
+                    <span>
+                      翻译质检 (QA Review)
+                      <span className="block text-xs text-slate-500 font-normal">配音前检查遗漏、数字、未译内容、不雅用语和时长 (Checks omissions, numbers, leftovers, profanity and length before voicing)</span>
+                    </span>
+                  </label>
+
+                  <label className="block text-sm font-medium text-slate-400">
+                    最大加速 (Max speed-up)
+                    <input
+                      type="number"
+                      min="1"
+                      max="1.5"
+                      step="0.05"
+                      value={config.maxSpeedUp}
+                      onChange={(e) => setConfig({...config, maxSpeedUp: Math.min(1.5, Math.max(1, parseFloat(e.target.value) || 1))})}
+                      disabled={isProcessingBatch}
+                      className="mt-2 w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    <span className="block text-xs text-slate-500 font-normal mt-1">过长的译句会被改写得更短 (Longer lines are rephrased to fit their slot)</span>
+                  </label>
+
+                  <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-2">服务提供方 (Provider)</label>
+                    <select
+                      value={config.provider}
+                      onChange={(e) => setConfig({...config, provider: e.target.value, models: defaultModels(getProvider(e.target.value))})}
+                      disabled={isProcessingBatch}
+                      className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                    >
+                      {PROVIDERS.map(provider => (
+                        <option key={provider.id} value={provider.id}>{provider.displayName}</option>
+                      ))}
+                    </select>
+                    <div className="grid grid-cols-1 gap-2 mt-2">
+                      {([
+                        ['transcription', '识别模型 (Transcription)'],
+                        ['translation', '翻译模型 (Translation)'],
+                        ['speech', '语音模型 (Speech)'],
+                      ] as [keyof ModelSelection, string][]).map(([stage, label]) => (
+                        <label key={stage} className="flex items-center justify-between gap-2 text-xs text-slate-500">
+                          {label}
+                          <select
+                            value={config.models[stage]}
+                            onChange={(e) => setConfig({...config, models: {...config.models, [stage]: e.target.value}})}
+                            disabled={isProcessingBatch}
+                            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300"
+                          >
+                            {getProvider(config.provider).models[stage].map(model => (
+                              <option key={model} value={model}>{model}</option>
+                            ))}
+                          </select>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <StyleSettings
+                    style={config.style}
+                    onChange={(style) => setConfig({...config, style})}
+                    disabled={isProcessingBatch}
+                  />
+
+                  <GlossaryEditor
+                    glossary={config.glossary}
+                    languages={config.targetLanguages}
+                    onChange={(glossary) => setConfig({...config, glossary})}
+                    disabled={isProcessingBatch}
+                  />
+
+                  {selectedItem?.speakers && selectedItem.speakers.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-slate-400 mb-2">说话人声音 (Speaker Voices)</label>
+                      <div className="space-y-2">
+                        {selectedItem.speakers.map(speaker => (
+                          <div key={speaker.id} className="flex items-center justify-between gap-2 bg-slate-900 rounded-lg px-3 py-2">
+                            <span className="text-sm text-slate-300">
+                              {speaker.id}
+                              <span className="text-xs text-slate-500 ml-2">{GENDER_LABELS[speaker.gender]} · {AGE_LABELS[speaker.age]}</span>
+                            </span>
+                            <select
+                              value={selectedItem.speakerVoices?.[speaker.id] || config.voiceName}
+                              onChange={(e) => handleSpeakerVoiceChange(selectedItem.id, speaker.id, e.target.value)}
+                              disabled={isProcessingBatch || redubbingItemId === selectedItem.id}
+                              className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white"
+                            >
+                              {availableVoices.map(voice => (
+                                <option key={voice} value={voice}>{voice}</option>
+                              ))}
+                            </select>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                 </div>
             </div>
 
@@ -212,14 +883,34 @@ function App() {
                 <div className="bg-slate-800/50 border border-slate-700 rounded-2xl overflow-hidden flex flex-col max-h-[400px]">
                     <div className="p-4 border-b border-slate-700 bg-slate-900/50 flex justify-between items-center">
                         <h3 className="font-bold text-slate-200">处理列表 ({batchItems.length})</h3>
-                        <button 
-                            onClick={handleProcessBatch}
-                            disabled={isProcessingBatch || batchItems.every(i => i.status === ItemStatus.COMPLETED)}
-                            className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 text-white px-4 py-1.5 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
-                        >
-                            {isProcessingBatch ? <Loader2 className="w-4 h-4 animate-spin"/> : <Mic className="w-4 h-4"/>}
-                            {isProcessingBatch ? "处理中..." : "开始批量生成"}
-                        </button>
+                        <div className="flex items-center gap-2">
+                            {batchItems.some(i => i.status === ItemStatus.ERROR || i.status === ItemStatus.CANCELLED) && (
+                                <button
+                                    onClick={handleRetryFailed}
+                                    className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
+                                    title="重试失败项 (Retry failed)"
+                                >
+                                    <RotateCcw className="w-4 h-4"/>
+                                </button>
+                            )}
+                            {batchItems.some(i => i.status === ItemStatus.QUEUED || i.status === ItemStatus.PAUSED || ACTIVE_STATUSES.includes(i.status)) && (
+                                <button
+                                    onClick={handleCancelAll}
+                                    className="bg-slate-700 hover:bg-red-600 text-white px-3 py-1.5 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
+                                    title="取消全部 (Cancel all)"
+                                >
+                                    <X className="w-4 h-4"/>
+                                </button>
+                            )}
+                            <button 
+                                onClick={handleProcessBatch}
+                                disabled={isProcessingBatch || batchItems.every(isItemDone)}
+                                className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 text-white px-4 py-1.5 rounded-lg text-sm font-medium flex items-center gap-2 transition-colors"
+                            >
+                                {isProcessingBatch ? <Loader2 className="w-4 h-4 animate-spin"/> : <Mic className="w-4 h-4"/>}
+                                {isProcessingBatch ? "处理中..." : "开始批量生成"}
+                            </button>
+                        </div>
                     </div>
                     <div className="overflow-y-auto p-2 space-y-2">
                         {batchItems.map((item) => (
@@ -235,26 +926,96 @@ function App() {
                                     <div className={`w-2 h-2 rounded-full shrink-0 
                                         ${item.status === ItemStatus.COMPLETED ? 'bg-emerald-500' : 
                                           item.status === ItemStatus.ERROR ? 'bg-red-500' : 
-                                          item.status !== ItemStatus.PENDING ? 'bg-yellow-500 animate-pulse' : 'bg-slate-600'}
+                                          item.status === ItemStatus.PAUSED ? 'bg-blue-400' :
+                                          item.status === ItemStatus.QUEUED ? 'bg-slate-400' :
+                                          ACTIVE_STATUSES.includes(item.status) ? 'bg-yellow-500 animate-pulse' : 'bg-slate-600'}
                                     `} />
                                     <div className="truncate">
                                         <p className="text-sm font-medium text-slate-200 truncate">{item.file.name}</p>
                                         <p className="text-xs text-slate-500">
                                             {item.status === ItemStatus.PENDING && "等待中 (Pending)"}
-                                            {item.status === ItemStatus.UPLOADING && "上传中 (Uploading)"}
-                                            {item.status === ItemStatus.TRANSLATING && "翻译中 (Translating)"}
+                                            {item.status === ItemStatus.QUEUED && "排队中 (Queued)"}
+                                            {item.status === ItemStatus.PAUSED && "已暂停 (Paused)"}
+                                            {item.status === ItemStatus.UPLOADING && `上传中 (Uploading)${item.progress !== undefined ? ` ${item.progress}%` : ''}`}
+                                            {item.status === ItemStatus.TRANSLATING && `翻译中 (Translating)${item.progress ? ` ${item.progress}%` : ''}`}
+                                            {item.status === ItemStatus.REVIEWING && "质检中 (Reviewing)"}
                                             {item.status === ItemStatus.GENERATING_AUDIO && "合成语音中 (TTS)"}
                                             {item.status === ItemStatus.COMPLETED && "完成 (Done)"}
+                                            {item.status === ItemStatus.CANCELLED && "已取消 (Cancelled)"}
                                             {item.status === ItemStatus.ERROR && "失败 (Error)"}
                                         </p>
+                                        {(item.status === ItemStatus.UPLOADING || item.status === ItemStatus.TRANSLATING) && item.progress !== undefined && (
+                                            <div className="w-32 h-1 bg-slate-700 rounded-full mt-1 overflow-hidden">
+                                                <div className="h-full bg-yellow-500 transition-all duration-200" style={{ width: `${item.progress}%` }} />
+                                            </div>
+                                        )}
+                                        {item.subtitleFileName && (
+                                            <p className="text-[10px] text-blue-400 truncate">字幕: {item.subtitleFileName} ({item.subtitleLanguage})</p>
+                                        )}
                                     </div>
                                 </div>
-                                <button 
-                                    onClick={(e) => { e.stopPropagation(); removeBatchItem(item.id); }}
-                                    className="text-slate-500 hover:text-red-400 p-2"
-                                >
-                                    <Trash2 className="w-4 h-4" />
-                                </button>
+                                <div className="flex items-center shrink-0">
+                                    {countItemIssues(item) > 0 && (
+                                        <span
+                                            className="flex items-center gap-1 px-1.5 py-0.5 mr-1 rounded bg-amber-500/20 text-amber-400 text-xs font-medium"
+                                            title="待处理的质检问题 (Open QA issues)"
+                                        >
+                                            <AlertTriangle className="w-3 h-3" />
+                                            {countItemIssues(item)}
+                                        </span>
+                                    )}
+                                    {(item.status === ItemStatus.QUEUED || ACTIVE_STATUSES.includes(item.status)) && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handlePauseItem(item); }}
+                                            className="text-slate-500 hover:text-blue-400 p-2"
+                                            title="暂停 (Pause)"
+                                        >
+                                            <Pause className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                    {item.status === ItemStatus.PAUSED && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleResumeItem(item); }}
+                                            className="text-slate-500 hover:text-blue-400 p-2"
+                                            title="继续 (Resume)"
+                                        >
+                                            <Play className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                    {(item.status === ItemStatus.QUEUED || item.status === ItemStatus.PAUSED || ACTIVE_STATUSES.includes(item.status)) && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); handleCancelItem(item); }}
+                                            className="text-slate-500 hover:text-red-400 p-2"
+                                            title="取消 (Cancel)"
+                                        >
+                                            <X className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                    {(item.status === ItemStatus.ERROR || item.status === ItemStatus.CANCELLED) && (
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); enqueueItems([item]); }}
+                                            className="text-slate-500 hover:text-emerald-400 p-2"
+                                            title="重试 (Retry)"
+                                        >
+                                            <RotateCcw className="w-4 h-4" />
+                                        </button>
+                                    )}
+                                    <label
+                                        onClick={(e) => e.stopPropagation()}
+                                        className={`text-slate-500 hover:text-blue-400 p-2 cursor-pointer ${isProcessingBatch || isItemDone(item) ? 'opacity-40 pointer-events-none' : ''}`}
+                                        title="导入字幕 (Import SRT/VTT)"
+                                    >
+                                        <FileText className="w-4 h-4" />
+                                        <input type="file" className="hidden" accept=".srt,.vtt,text/vtt,application/x-subrip" onChange={(e) => handleSubtitleImport(item.id, e)} />
+                                    </label>
+                                    <button 
+                                        onClick={(e) => { e.stopPropagation(); removeBatchItem(item.id); }}
+                                        className="text-slate-500 hover:text-red-400 p-2"
+                                        title="移除 (Remove)"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
                             </div>
                         ))}
                     </div>
@@ -268,9 +1029,14 @@ function App() {
                 <div className="space-y-6 animate-fade-in">
                     <div className="bg-slate-800 rounded-2xl p-1 border border-slate-700">
                          <VideoPlayer 
+                            playerRef={playerRef}
                             videoUrl={selectedItem.videoUrl} 
-                            audioUrl={selectedItem.result?.audioUrl || null} 
-                            fileName={selectedItem.file.name}
+                            audioUrl={activeResult?.audioUrl || null} 
+                            fileName={activeLanguage ? `${activeLanguage}_${selectedItem.file.name}` : selectedItem.file.name}
+                            segments={activeResult?.segments}
+                            tracks={Object.keys(selectedResults)}
+                            activeTrack={activeLanguage}
+                            onTrackChange={setSelectedLanguage}
                         />
                     </div>
                     
@@ -278,13 +1044,28 @@ function App() {
                     <div className="grid md:grid-cols-2 gap-6">
                         <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-5">
                             <h4 className="text-slate-400 text-sm font-bold uppercase tracking-wider mb-3">翻译文本 (Transcript)</h4>
-                            <div className="h-48 overflow-y-auto text-slate-300 text-sm leading-relaxed p-3 bg-slate-900 rounded-lg border border-slate-800">
-                                {selectedItem.result?.translatedText ? (
-                                    selectedItem.result.translatedText
-                                ) : (
-                                    <span className="text-slate-600 italic">等待生成... (Waiting for generation)</span>
-                                )}
-                            </div>
+                            {activeLanguage && activeResult?.segments ? (
+                                <TranscriptEditor
+                                    segments={activeResult.segments}
+                                    glossary={config.glossary}
+                                    language={activeLanguage}
+                                    qaIssues={activeResult.qaIssues}
+                                    onDismissIssue={(segmentId, type) => handleDismissIssue(selectedItem.id, activeLanguage, segmentId, type)}
+                                    hasPendingEdits={!!activeResult.hasPendingEdits}
+                                    isRedubbing={redubbingItemId === selectedItem.id}
+                                    disabled={isProcessingBatch}
+                                    onSegmentChange={(segment) => handleSegmentChange(selectedItem.id, activeLanguage, segment)}
+                                    onRedub={() => handleRedub(selectedItem, activeLanguage)}
+                                />
+                            ) : (
+                                <div className="h-48 overflow-y-auto text-slate-300 text-sm leading-relaxed p-3 bg-slate-900 rounded-lg border border-slate-800">
+                                    {activeResult?.translatedText ? (
+                                        activeResult.translatedText
+                                    ) : (
+                                        <span className="text-slate-600 italic">等待生成... (Waiting for generation)</span>
+                                    )}
+                                </div>
+                            )}
                         </div>
 
                         <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-5">
@@ -299,7 +1080,42 @@ function App() {
                                         <p className="text-xs text-slate-500">{selectedItem.status}</p>
                                     </div>
                                 </div>
+
+                                {activeResult?.sourceLanguage && (
+                                    <div className="flex items-center gap-3">
+                                        <div className="p-2 rounded-full bg-slate-700 text-slate-400">
+                                            <Globe className="w-5 h-5" />
+                                        </div>
+                                        <div>
+                                            <p className="text-sm font-medium">源语言 (Source Language)</p>
+                                            <p className="text-xs text-slate-500">{activeResult.sourceLanguage}</p>
+                                        </div>
+                                    </div>
+                                )}
                                 
+                                {activeResult?.overflows && activeResult.overflows.length > 0 && (
+                                    <div className="p-3 bg-amber-500/10 border border-amber-500/20 rounded-lg text-amber-300 text-xs">
+                                        <p className="flex items-center gap-2 font-medium mb-2">
+                                            <AlertTriangle className="w-4 h-4 shrink-0" />
+                                            {activeResult.overflows.length} 句超出时长 (lines still overflow)
+                                        </p>
+                                        <ul className="space-y-1">
+                                            {activeResult.overflows.map(overflow => (
+                                                <li key={overflow.segmentId}>
+                                                    <button
+                                                        onClick={() => playerRef.current?.seekTo(overflow.start)}
+                                                        className="font-mono text-amber-200 hover:text-white"
+                                                        title="跳转到此句 (Seek to line)"
+                                                    >
+                                                        {formatTimestamp(overflow.start, 'vtt').replace(/^00:/, '')}
+                                                    </button>
+                                                    <span className="text-amber-400/80"> · {overflow.needed.toFixed(1)}s / {overflow.available.toFixed(1)}s · ×{overflow.speedUp.toFixed(2)}</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
+
                                 {selectedItem.error && (
                                     <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start gap-2 text-red-400 text-xs">
                                         <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
@@ -309,14 +1125,26 @@ function App() {
 
                                 {selectedItem.status === ItemStatus.COMPLETED && (
                                     <div className="p-3 bg-blue-500/10 border border-blue-500/20 rounded-lg text-blue-300 text-xs">
-                                        提示：如果音频与视频时长不一致，播放器会自动调整播放速度以保持同步。点击“合成并下载视频”可保存此同步结果。
+                                        提示：配音已按原视频时间轴逐句对齐。点击“合成并下载视频”可保存此同步结果。
                                         <br/>
-                                        (Note: Playback speed is auto-adjusted for sync. Use 'Synthesize & Download' to save.)
+                                        (Note: Each dubbed line is placed at its original timestamp. Use 'Synthesize & Download' to save.)
                                     </div>
                                 )}
                             </div>
                         </div>
                     </div>
+
+                    {activeLanguage && activeResult?.segments && (
+                        <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-5">
+                            <h4 className="text-slate-400 text-sm font-bold uppercase tracking-wider mb-3">双语对照 (Bilingual Review)</h4>
+                            <BilingualView
+                                segments={activeResult.segments}
+                                sourceLanguage={activeResult.sourceLanguage}
+                                targetLanguage={activeLanguage}
+                                onSeek={(time) => playerRef.current?.seekTo(time)}
+                            />
+                        </div>
+                    )}
                 </div>
             ) : (
                 <div className="h-full min-h-[400px] flex flex-col items-center justify-center text-slate-500 border-2 border-dashed border-slate-800 rounded-2xl bg-slate-800/20">
@@ -0,0 +1,54 @@
+import React from 'react';
+import { Play } from 'lucide-react';
+import { TranscriptSegment } from '../types';
+import { formatTimestamp } from '../utils/subtitleUtils';
+
+interface BilingualViewProps {
+  segments: TranscriptSegment[];
+  sourceLanguage?: string;
+  targetLanguage: string;
+  onSeek: (time: number) => void;
+}
+
+// "00:01:02.500" -> "01:02.500"; hours only show for long videos
+const formatStart = (seconds: number) => formatTimestamp(seconds, 'vtt').replace(/^00:/, '');
+
+/**
+ * Original and translated text of every segment side by side, for review
+ */
+const BilingualView: React.FC<BilingualViewProps> = ({ segments, sourceLanguage, targetLanguage, onSeek }) => {
+  return (
+    <div className="text-sm">
+      <div className="grid grid-cols-[5.5rem_1fr_1fr] gap-3 px-2 pb-2 text-xs text-slate-500 uppercase tracking-wider border-b border-slate-700">
+        <span>时间 (Time)</span>
+        <span>原文 (Source{sourceLanguage ? ` · ${sourceLanguage}` : ''})</span>
+        <span>译文 (Translation · {targetLanguage})</span>
+      </div>
+      <div className="max-h-96 overflow-y-auto divide-y divide-slate-800">
+        {segments.map(segment => (
+          <div key={segment.id} className="grid grid-cols-[5.5rem_1fr_1fr] gap-3 px-2 py-2 hover:bg-slate-900/60">
+            <div className="flex flex-col items-start gap-1">
+              <button
+                onClick={() => onSeek(segment.start)}
+                className="flex items-center gap-1 text-xs font-mono text-blue-400 hover:text-blue-300"
+                title="跳转到此句 (Seek to line)"
+              >
+                <Play className="w-3 h-3" />
+                {formatStart(segment.start)}
+              </button>
+              {segment.speakerId && (
+                <span className="px-1.5 py-0.5 rounded bg-slate-800 text-[10px] text-slate-400">{segment.speakerId}</span>
+              )}
+            </div>
+            <p className="text-slate-400 leading-relaxed">
+              {segment.sourceText || <span className="italic text-slate-600">—</span>}
+            </p>
+            <p className="text-slate-200 leading-relaxed">{segment.translatedText}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BilingualView;
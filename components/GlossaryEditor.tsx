@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { BookOpen, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { GlossaryEntry } from '../types';
+import { mergeGlossary, parseGlossaryCsv, serializeGlossaryCsv } from '../utils/glossary';
+
+interface GlossaryEditorProps {
+  glossary: GlossaryEntry[];
+  languages: string[]; // Target language codes that get a rendering column
+  onChange: (glossary: GlossaryEntry[]) => void;
+  disabled?: boolean;
+}
+
+const GlossaryEditor: React.FC<GlossaryEditorProps> = ({ glossary, languages, onChange, disabled = false }) => {
+  const [importError, setImportError] = useState('');
+
+  const updateEntry = (id: string, patch: Partial<GlossaryEntry>) =>
+    onChange(glossary.map(entry => entry.id === id ? { ...entry, ...patch } : entry));
+
+  const handleAdd = () =>
+    onChange([...glossary, { id: crypto.randomUUID(), source: '', doNotTranslate: false, translations: {} }]);
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      onChange(mergeGlossary(glossary, parseGlossaryCsv(await file.text())));
+      setImportError('');
+    } catch (e: any) {
+      console.error(e);
+      setImportError(e.message || "Unknown error");
+    }
+  };
+
+  const handleExport = () => {
+    // The byte order mark makes spreadsheet apps read the file as UTF-8
+    const url = URL.createObjectURL(new Blob(['\uFEFF', serializeGlossaryCsv(glossary)], { type: 'text/csv;charset=utf-8' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'glossary.csv';
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="text-sm font-medium text-slate-400 flex items-center gap-2">
+          <BookOpen className="w-4 h-4" />
+          术语表 (Glossary)
+        </label>
+        <div className="flex items-center gap-1">
+          <label
+            className={`text-slate-500 hover:text-blue-400 p-1 cursor-pointer ${disabled ? 'opacity-40 pointer-events-none' : ''}`}
+            title="导入 CSV (Import CSV)"
+          >
+            <Upload className="w-4 h-4" />
+            <input type="file" className="hidden" accept=".csv,text/csv" onChange={handleImport} />
+          </label>
+          <button
+            onClick={handleExport}
+            disabled={glossary.length === 0}
+            className="text-slate-500 hover:text-blue-400 disabled:opacity-40 p-1"
+            title="导出 CSV (Export CSV)"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <button
+            onClick={handleAdd}
+            disabled={disabled}
+            className="text-slate-500 hover:text-emerald-400 disabled:opacity-40 p-1"
+            title="添加术语 (Add term)"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {importError && <p className="text-xs text-red-400 mb-2">{importError}</p>}
+
+      {glossary.length === 0 ? (
+        <p className="text-xs text-slate-500">品牌名、产品术语和角色名将按此统一翻译 (Brand, product and character names are kept consistent)</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto space-y-2 pr-1">
+          {glossary.map(entry => (
+            <div key={entry.id} className="bg-slate-900 rounded-lg p-2 space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={entry.source}
+                  onChange={(e) => updateEntry(entry.id, { source: e.target.value })}
+                  disabled={disabled}
+                  placeholder="原文术语 (Source term)"
+                  className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white"
+                />
+                <label className="flex items-center gap-1 text-xs text-slate-500 shrink-0" title="保留原文 (Do not translate)">
+                  <input
+                    type="checkbox"
+                    checked={entry.doNotTranslate}
+                    onChange={(e) => updateEntry(entry.id, { doNotTranslate: e.target.checked })}
+                    disabled={disabled}
+                    className="accent-blue-500"
+                  />
+                  不翻译 (Keep)
+                </label>
+                <button
+                  onClick={() => onChange(glossary.filter(e => e.id !== entry.id))}
+                  disabled={disabled}
+                  className="text-slate-500 hover:text-red-400 disabled:opacity-40 p-1 shrink-0"
+                  title="删除 (Delete)"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+              {!entry.doNotTranslate && languages.map(language => (
+                <label key={language} className="flex items-center gap-2 text-xs text-slate-500">
+                  <span className="w-12 shrink-0">{language}</span>
+                  <input
+                    type="text"
+                    value={entry.translations[language] ?? ''}
+                    onChange={(e) => updateEntry(entry.id, { translations: { ...entry.translations, [language]: e.target.value } })}
+                    disabled={disabled}
+                    placeholder="译法 (Required rendering)"
+                    className="flex-1 min-w-0 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-white"
+                  />
+                </label>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GlossaryEditor;
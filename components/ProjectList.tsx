@@ -0,0 +1,91 @@
+import React from 'react';
+import { FolderOpen, Plus, Trash2, Loader2, Check, AlertCircle } from 'lucide-react';
+import { ProjectSummary, SaveState } from '../types';
+
+interface ProjectListProps {
+  projects: ProjectSummary[];
+  currentProjectId: string;
+  projectName: string;
+  saveState: SaveState;
+  disabled?: boolean;
+  onRename: (name: string) => void;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+}
+
+const ProjectList: React.FC<ProjectListProps> = ({
+  projects,
+  currentProjectId,
+  projectName,
+  saveState,
+  disabled = false,
+  onRename,
+  onOpen,
+  onDelete,
+  onNew,
+}) => {
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-2xl p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2">
+          <FolderOpen className="w-5 h-5 text-yellow-400" />
+          项目 (Projects)
+        </h3>
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="flex items-center gap-1 px-3 py-1.5 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded-lg text-xs font-medium transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          新建 (New)
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 mb-3">
+        <input
+          value={projectName}
+          onChange={(e) => onRename(e.target.value)}
+          className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+        <span className="text-xs text-slate-500 flex items-center gap-1 shrink-0" title="自动保存 (Autosave)">
+          {saveState === 'saving' && <Loader2 className="w-3 h-3 animate-spin" />}
+          {saveState === 'saved' && <Check className="w-3 h-3 text-emerald-400" />}
+          {saveState === 'error' && <AlertCircle className="w-3 h-3 text-red-400" />}
+          {saveState === 'saving' ? "保存中" : saveState === 'saved' ? "已保存" : saveState === 'error' ? "保存失败" : ""}
+        </span>
+      </div>
+
+      {projects.filter(p => p.id !== currentProjectId).length > 0 && (
+        <div className="max-h-40 overflow-y-auto space-y-1">
+          {projects.filter(p => p.id !== currentProjectId).map(project => (
+            <div
+              key={project.id}
+              className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg bg-slate-900 hover:bg-slate-700/50 transition-colors"
+            >
+              <button
+                onClick={() => onOpen(project.id)}
+                disabled={disabled}
+                className="flex-1 text-left truncate disabled:opacity-50"
+              >
+                <p className="text-sm text-slate-200 truncate">{project.name}</p>
+                <p className="text-[10px] text-slate-500">
+                  {project.itemCount} 个视频 · {new Date(project.updatedAt).toLocaleString()}
+                </p>
+              </button>
+              <button
+                onClick={() => onDelete(project.id)}
+                disabled={disabled}
+                className="text-slate-500 hover:text-red-400 p-1 disabled:opacity-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectList;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Download, Save, Trash2, Upload } from 'lucide-react';
+import { Formality, StylePreset, TranslationAudience, TranslationStyle, TranslationTone } from '../types';
+import { AUDIENCES, FORMALITIES, TONES, deleteStylePreset, exportStylePresets, importStylePresets, listStylePresets, saveStylePreset } from '../services/stylePresets';
+
+const FORMALITY_LABELS: Record<Formality, string> = {
+  auto: '自动 (Auto)',
+  informal: '非正式 (Informal)',
+  formal: '正式 (Formal)'
+};
+
+const TONE_LABELS: Record<TranslationTone, string> = {
+  neutral: '中性 (Neutral)',
+  casual: '随意 (Casual)',
+  playful: '活泼 (Playful)',
+  enthusiastic: '热情 (Enthusiastic)',
+  professional: '专业 (Professional)',
+  serious: '严肃 (Serious)'
+};
+
+const AUDIENCE_LABELS: Record<TranslationAudience, string> = {
+  general: '大众 (General)',
+  children: '儿童 (Children)',
+  teens: '青少年 (Teens)',
+  professionals: '专业人士 (Professionals)'
+};
+
+interface StyleSettingsProps {
+  style: TranslationStyle;
+  onChange: (style: TranslationStyle) => void;
+  disabled?: boolean;
+}
+
+const StyleSettings: React.FC<StyleSettingsProps> = ({ style, onChange, disabled = false }) => {
+  const [presets, setPresets] = useState<StylePreset[]>(listStylePresets);
+  const [presetId, setPresetId] = useState('');
+  const [presetName, setPresetName] = useState('');
+  const [presetError, setPresetError] = useState('');
+  const update = (patch: Partial<TranslationStyle>) => onChange({ ...style, ...patch });
+
+  const selectedPreset = presets.find(p => p.id === presetId);
+
+  const handleLoadPreset = (id: string) => {
+    setPresetId(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) onChange(preset.style);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const preset = saveStylePreset(name, style);
+    setPresets(listStylePresets());
+    setPresetId(preset.id);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    deleteStylePreset(selectedPreset.id);
+    setPresets(listStylePresets());
+    setPresetId('');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      importStylePresets(await file.text());
+      setPresets(listStylePresets());
+      setPresetError('');
+    } catch (e: any) {
+      console.error(e);
+      setPresetError(e.message || "Unknown error");
+    }
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([exportStylePresets()], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'style-presets.json';
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const selectClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300";
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-400 mb-2">翻译风格 (Translation Style)</label>
+
+      <div className="flex items-center gap-1 mb-2">
+        <select
+          value={presetId}
+          onChange={(e) => handleLoadPreset(e.target.value)}
+          disabled={disabled}
+          className={`flex-1 min-w-0 text-xs ${selectClass}`}
+        >
+          <option value="">预设 (Presets)...</option>
+          {presets.map(preset => (
+            <option key={preset.id} value={preset.id}>{preset.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleDeletePreset}
+          disabled={disabled || !selectedPreset || selectedPreset.builtIn}
+          className="text-slate-500 hover:text-red-400 disabled:opacity-40 p-1"
+          title="删除预设 (Delete preset)"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+        <label
+          className={`text-slate-500 hover:text-blue-400 p-1 cursor-pointer ${disabled ? 'opacity-40 pointer-events-none' : ''}`}
+          title="导入预设 (Import presets)"
+        >
+          <Upload className="w-4 h-4" />
+          <input type="file" className="hidden" accept=".json,application/json" onChange={handleImport} />
+        </label>
+        <button
+          onClick={handleExport}
+          disabled={presets.every(p => p.builtIn)}
+          className="text-slate-500 hover:text-blue-400 disabled:opacity-40 p-1"
+          title="导出预设 (Export presets)"
+        >
+          <Download className="w-4 h-4" />
+        </button>
+      </div>
+
+      {presetError && <p className="text-xs text-red-400 mb-2">{presetError}</p>}
+
+      <div className="grid grid-cols-1 gap-2">
+        <label className="flex items-center justify-between gap-2 text-xs text-slate-500">
+          语体 (Formality)
+          <select
+            value={style.formality}
+            onChange={(e) => update({ formality: e.target.value as Formality })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {FORMALITIES.map(value => <option key={value} value={value}>{FORMALITY_LABELS[value]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2 text-xs text-slate-500">
+          语气 (Tone)
+          <select
+            value={style.tone}
+            onChange={(e) => update({ tone: e.target.value as TranslationTone })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {TONES.map(value => <option key={value} value={value}>{TONE_LABELS[value]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center justify-between gap-2 text-xs text-slate-500">
+          受众 (Audience)
+          <select
+            value={style.audience}
+            onChange={(e) => update({ audience: e.target.value as TranslationAudience })}
+            disabled={disabled}
+            className={selectClass}
+          >
+            {AUDIENCES.map(value => <option key={value} value={value}>{AUDIENCE_LABELS[value]}</option>)}
+          </select>
+        </label>
+        <textarea
+          value={style.instructions}
+          onChange={(e) => update({ instructions: e.target.value })}
+          disabled={disabled}
+          rows={2}
+          placeholder="附加说明 (Extra instructions)"
+          className="w-full bg-slate-900 border border-slate-700 rounded-lg p-2 text-xs text-white resize-y focus:ring-2 focus:ring-blue-500 outline-none"
+        />
+      </div>
+
+      <div className="flex items-center gap-1 mt-2">
+        <input
+          type="text"
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+          disabled={disabled}
+          placeholder="预设名称 (Preset name)"
+          className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-white"
+        />
+        <button
+          onClick={handleSavePreset}
+          disabled={disabled || !presetName.trim()}
+          className="flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white rounded text-xs font-medium transition-colors"
+          title="保存为预设 (Save as preset)"
+        >
+          <Save className="w-3 h-3" />
+          保存 (Save)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default StyleSettings;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Captions, CaptionsOff } from 'lucide-react';
+import { SubtitleStyle } from '../types';
+
+interface SubtitleSettingsProps {
+  style: SubtitleStyle;
+  onChange: (style: SubtitleStyle) => void;
+  disabled?: boolean;
+}
+
+const SubtitleSettings: React.FC<SubtitleSettingsProps> = ({ style, onChange, disabled = false }) => {
+  const update = (patch: Partial<SubtitleStyle>) => onChange({ ...style, ...patch });
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 text-xs text-slate-400">
+      <button
+        onClick={() => update({ showOverlay: !style.showOverlay })}
+        disabled={disabled}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg font-medium transition-colors disabled:opacity-50 ${style.showOverlay ? 'bg-blue-600 text-white' : 'bg-slate-800 hover:bg-slate-700'}`}
+      >
+        {style.showOverlay ? <Captions className="w-4 h-4" /> : <CaptionsOff className="w-4 h-4" />}
+        字幕 (CC)
+      </button>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={style.burnIn}
+          onChange={(e) => update({ burnIn: e.target.checked })}
+          disabled={disabled}
+          className="accent-blue-500"
+        />
+        烧录到视频 (Burn in)
+      </label>
+
+      <label className="flex items-center gap-2">
+        字号 (Size)
+        <input
+          type="range"
+          min="3"
+          max="10"
+          step="0.5"
+          value={style.fontSize}
+          onChange={(e) => update({ fontSize: parseFloat(e.target.value) })}
+          disabled={disabled}
+          className="w-20 accent-blue-500"
+        />
+      </label>
+
+      <select
+        value={style.position}
+        onChange={(e) => update({ position: e.target.value as SubtitleStyle['position'] })}
+        disabled={disabled}
+        className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-slate-300"
+      >
+        <option value="bottom">底部 (Bottom)</option>
+        <option value="top">顶部 (Top)</option>
+      </select>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={style.background}
+          onChange={(e) => update({ background: e.target.checked })}
+          disabled={disabled}
+          className="accent-blue-500"
+        />
+        背景框 (Box)
+      </label>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={style.bilingual}
+          onChange={(e) => update({ bilingual: e.target.checked })}
+          disabled={disabled}
+          className="accent-blue-500"
+        />
+        双语 (Bilingual)
+      </label>
+    </div>
+  );
+};
+
+export default SubtitleSettings;
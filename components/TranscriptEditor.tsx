@@ -0,0 +1,142 @@
+import React from 'react';
+import { AlertTriangle, Check, Loader2, RefreshCw } from 'lucide-react';
+import { GlossaryEntry, QaIssue, QaIssueType, TranscriptSegment } from '../types';
+import { findGlossaryViolations } from '../utils/glossary';
+
+const QA_LABELS: Record<QaIssueType, string> = {
+  omission: '遗漏 (Omission)',
+  mistranslation: '误译 (Mistranslation)',
+  number: '数字 (Numbers)',
+  untranslated: '未翻译 (Untranslated)',
+  profanity: '不雅用语 (Profanity)',
+  length: '过长 (Too long)'
+};
+
+interface TranscriptEditorProps {
+  segments: TranscriptSegment[];
+  glossary?: GlossaryEntry[];
+  language?: string; // Target language of the segments, for the glossary check
+  qaIssues?: Record<string, QaIssue[]>;
+  onDismissIssue?: (segmentId: string, type: QaIssueType) => void;
+  hasPendingEdits: boolean;
+  isRedubbing: boolean;
+  disabled?: boolean;
+  onSegmentChange: (segment: TranscriptSegment) => void;
+  onRedub: () => void;
+}
+
+const TranscriptEditor: React.FC<TranscriptEditorProps> = ({
+  segments,
+  glossary = [],
+  language,
+  qaIssues = {},
+  onDismissIssue,
+  hasPendingEdits,
+  isRedubbing,
+  disabled = false,
+  onSegmentChange,
+  onRedub,
+}) => {
+  const locked = disabled || isRedubbing;
+
+  const updateTime = (segment: TranscriptSegment, field: 'start' | 'end', value: string) => {
+    const time = parseFloat(value);
+    if (!Number.isFinite(time) || time < 0) return;
+    onSegmentChange({ ...segment, [field]: time });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-96 overflow-y-auto space-y-2 pr-1">
+        {segments.map((segment) => {
+          const invalidTiming = segment.end <= segment.start;
+          const violations = language ? findGlossaryViolations(segment, glossary, language) : [];
+          const openIssues = (qaIssues[segment.id] ?? []).filter(issue => !issue.dismissed);
+          return (
+            <div
+              key={segment.id}
+              className={`p-3 bg-slate-900 rounded-lg border ${!segment.audioUrl ? 'border-yellow-500/50' : 'border-slate-800'}`}
+            >
+              <div className="flex items-center gap-2 mb-2 text-xs text-slate-500">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={segment.start}
+                  onChange={(e) => updateTime(segment, 'start', e.target.value)}
+                  disabled={locked}
+                  className={`w-20 bg-slate-800 border rounded px-2 py-1 text-slate-300 ${invalidTiming ? 'border-red-500' : 'border-slate-700'}`}
+                />
+                <span>→</span>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={segment.end}
+                  onChange={(e) => updateTime(segment, 'end', e.target.value)}
+                  disabled={locked}
+                  className={`w-20 bg-slate-800 border rounded px-2 py-1 text-slate-300 ${invalidTiming ? 'border-red-500' : 'border-slate-700'}`}
+                />
+                <span>s</span>
+                {segment.speakerId && (
+                  <span className="px-2 py-0.5 rounded bg-slate-800 text-slate-400">{segment.speakerId}</span>
+                )}
+                {violations.length > 0 && (
+                  <span
+                    className="px-2 py-0.5 rounded bg-orange-500/20 text-orange-400"
+                    title={violations.map(v => `${v.source} → ${v.expected}`).join('\n')}
+                  >
+                    术语不符 (Glossary)
+                  </span>
+                )}
+                {!segment.audioUrl && (
+                  <span className="ml-auto text-yellow-400">待重新配音 (Needs re-dub)</span>
+                )}
+              </div>
+              {segment.sourceText && (
+                <p className="text-xs text-slate-500 mb-1 italic">{segment.sourceText}</p>
+              )}
+              <textarea
+                value={segment.translatedText}
+                onChange={(e) => onSegmentChange({ ...segment, translatedText: e.target.value })}
+                disabled={locked}
+                rows={2}
+                className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-sm text-slate-200 leading-relaxed resize-y focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              {openIssues.map(issue => (
+                <div key={issue.type} className="flex items-start gap-2 mt-1 text-xs text-amber-400">
+                  <AlertTriangle className="w-3 h-3 shrink-0 mt-0.5" />
+                  <span className="flex-1">
+                    <span className="font-medium">{QA_LABELS[issue.type]}</span>
+                    {issue.message && <span className="text-amber-400/80"> · {issue.message}</span>}
+                  </span>
+                  {onDismissIssue && (
+                    <button
+                      onClick={() => onDismissIssue(segment.id, issue.type)}
+                      disabled={locked}
+                      className="text-slate-500 hover:text-emerald-400 disabled:opacity-40"
+                      title="标记为已处理 (Dismiss)"
+                    >
+                      <Check className="w-3 h-3" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={onRedub}
+        disabled={locked || !hasPendingEdits || segments.some(s => s.end <= s.start || !s.translatedText.trim())}
+        className="w-full bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 text-white px-4 py-2 rounded-lg text-sm font-medium flex items-center justify-center gap-2 transition-colors"
+      >
+        {isRedubbing ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+        {isRedubbing ? "重新配音中..." : "重新配音已修改的句子 (Re-dub changes)"}
+      </button>
+    </div>
+  );
+};
+
+export default TranscriptEditor;
@@ -0,0 +1,54 @@
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render } from '@testing-library/react';
+import VideoPlayer from './VideoPlayer';
+
+/**
+ * jsdom media elements never load, so durations are set by hand
+ */
+const setDuration = (element: HTMLMediaElement, duration: number) => {
+  Object.defineProperty(element, 'duration', { configurable: true, value: duration });
+};
+
+describe('VideoPlayer sync', () => {
+  beforeEach(() => {
+    URL.revokeObjectURL = vi.fn();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  const renderPlayer = () => {
+    const { container } = render(
+      <VideoPlayer videoUrl="blob:video" audioUrl="blob:dub" fileName="clip.mp4" />
+    );
+    return {
+      video: container.querySelector('video') as HTMLVideoElement,
+      audio: container.querySelector('audio') as HTMLAudioElement,
+    };
+  };
+
+  it('plays the dub track as it is, at the speed of the video', () => {
+    const { video, audio } = renderPlayer();
+    setDuration(video, 10);
+    setDuration(audio, 10);
+    fireEvent(audio, new Event('loadedmetadata'));
+
+    expect(audio.getAttribute('src')).toBe('blob:dub');
+    expect(audio.playbackRate).toBe(1.0);
+    expect(video.playbackRate).toBe(1.0);
+  });
+
+  it('mutes the original soundtrack once both tracks are loaded', () => {
+    const { video, audio } = renderPlayer();
+    video.muted = false;
+    setDuration(video, 10);
+    fireEvent(video, new Event('loadedmetadata'));
+    expect(video.muted).toBe(false);
+
+    setDuration(audio, 9);
+    fireEvent(audio, new Event('loadedmetadata'));
+    expect(video.muted).toBe(true);
+  });
+});
@@ -1,26 +1,67 @@
-import React, { useRef, useState, useEffect } from 'react';
-import { Play, Pause, Volume2, VolumeX, Download, RefreshCw, Video as VideoIcon } from 'lucide-react';
+import React, { useRef, useState, useEffect, useMemo, useImperativeHandle } from 'react';
+import { Play, Pause, Volume2, VolumeX, Download, RefreshCw, Video as VideoIcon, FileText, X } from 'lucide-react';
+import { TranscriptSegment, SubtitleStyle, DEFAULT_SUBTITLE_STYLE } from '../types';
+import { SubtitleFormat, segmentsToCues, serializeSubtitles } from '../utils/subtitleUtils';
+import { getActiveSegment, getSubtitleLines, drawSubtitles } from '../utils/subtitleRenderer';
+import SubtitleSettings from './SubtitleSettings';
+import { buildDuckingEnvelope, applyGainEnvelope, getEnvelopeValue } from '../utils/audioUtils';
+import { demuxVideoSource, exportVideoOffline, mixExportAudio, supportsOfflineExport } from '../utils/videoExport';
+
+// Level of the original soundtrack, relative to its volume, while dubbed speech plays
+const DUCK_LEVEL = 0.25;
+
+// Lets other panels move the preview, e.g. to a line picked in the transcript
+export interface VideoPlayerHandle {
+  seekTo: (time: number) => void;
+}
 
 interface VideoPlayerProps {
+  playerRef?: React.Ref<VideoPlayerHandle>;
   videoUrl: string;
   audioUrl: string | null;
   fileName: string;
+  segments?: TranscriptSegment[];
+  tracks?: string[]; // Language codes of the available dubbed tracks
+  activeTrack?: string;
+  onTrackChange?: (track: string) => void;
 }
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName }) => {
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ playerRef, videoUrl, audioUrl, fileName, segments, tracks = [], activeTrack, onTrackChange }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const audioRef = useRef<HTMLAudioElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const exportControllerRef = useRef<AbortController | null>(null);
   
   const [isPlaying, setIsPlaying] = useState(false);
   const [isMuted, setIsMuted] = useState(true);
   const [progress, setProgress] = useState(0);
   const [duration, setDuration] = useState(0);
-  const [playbackRates, setPlaybackRates] = useState({ video: 1.0, audio: 1.0 });
   const [isRecording, setIsRecording] = useState(false);
   const [recordingProgress, setRecordingProgress] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [subtitleStyle, setSubtitleStyle] = useState<SubtitleStyle>(DEFAULT_SUBTITLE_STYLE);
+  const [originalVolume, setOriginalVolume] = useState(0.6);
+  const [dubVolume, setDubVolume] = useState(1.0);
+
+  // Relative ducking envelope for the original soundtrack (1 = full, DUCK_LEVEL = under speech)
+  const duckingEnvelope = useMemo(
+    () => buildDuckingEnvelope(segments || [], 1, DUCK_LEVEL),
+    [segments]
+  );
+
+  // Stop a running export when the player goes away
+  useEffect(() => () => exportControllerRef.current?.abort(), []);
 
-  // Sync Logic: Calculate durations and adjust rates
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.volume = dubVolume;
+  }, [dubVolume, audioUrl]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.volume = originalVolume;
+  }, [originalVolume, videoUrl]);
+
+  // The dub track is assembled on the video timeline, so both play at 1.0x
   useEffect(() => {
     const syncDurations = () => {
       const video = videoRef.current;
@@ -29,36 +70,10 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName
       if (video && audio && audioUrl) {
         // We need both to have metadata loaded
         if (video.duration && audio.duration && video.duration !== Infinity && audio.duration !== Infinity) {
-          const vDur = video.duration;
-          const aDur = audio.duration;
-          
-          let newRates = { video: 1.0, audio: 1.0 };
-
-          if (aDur > vDur) {
-            // Audio is longer: Speed up Audio to match Video
-            // Rate = Audio / Video (e.g., 20s / 10s = 2.0x speed)
-            newRates.audio = aDur / vDur;
-            newRates.video = 1.0;
-            console.log(`Audio longer. Speeding up Audio by ${newRates.audio.toFixed(2)}x`);
-          } else {
-            // Video is longer (or audio is shorter): Speed up Video to match Audio
-            // Rate = Video / Audio (e.g., 20s / 10s = 2.0x speed)
-            newRates.video = vDur / aDur;
-            newRates.audio = 1.0;
-            console.log(`Audio shorter. Speeding up Video by ${newRates.video.toFixed(2)}x`);
-          }
-
-          setPlaybackRates(newRates);
-          if (video) video.playbackRate = newRates.video;
-          if (audio) audio.playbackRate = newRates.audio;
-          
           // Mute original video by default when dubbed audio is ready
           video.muted = true;
           setIsMuted(true);
         }
-      } else if (video) {
-         // Reset if no audio
-         video.playbackRate = 1.0;
       }
     };
 
@@ -99,37 +114,47 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName
       const current = videoRef.current.currentTime;
       const dur = videoRef.current.duration;
       setDuration(dur);
+      setCurrentTime(current);
       if (dur > 0) setProgress((current / dur) * 100);
 
+      // Duck the original soundtrack under dubbed lines when both are audible
+      if (audioUrl && !videoRef.current.muted) {
+         videoRef.current.volume = originalVolume * getEnvelopeValue(duckingEnvelope, current);
+      }
+
       // Force strict sync for preview
       if (audioRef.current && audioUrl) {
-         // Because rates are different, we can't just match timestamps 1:1. 
-         // We must match percentage progress.
-         // But browsers handle playbackRate natively, so play() on both should keep them relatively aligned.
-         // Re-sync if drift is huge only.
-         const videoPercent = current / dur;
-         const audioPercent = audioRef.current.currentTime / audioRef.current.duration;
-         
-         if (Math.abs(videoPercent - audioPercent) > 0.05) {
-            // Sync audio to video percentage
-            if(isFinite(audioRef.current.duration)) {
-                audioRef.current.currentTime = videoPercent * audioRef.current.duration;
+         // Re-sync only if the drift is noticeable; the dub runs on the video timeline
+         if (Math.abs(audioRef.current.currentTime - current) > 0.25) {
+            if (current < audioRef.current.duration) {
+                audioRef.current.currentTime = current;
             }
          }
+         // The dub may have ended before a backwards seek; pick it up again
+         if (!videoRef.current.paused && audioRef.current.paused && current < audioRef.current.duration) {
+            audioRef.current.play();
+         }
       }
     }
   };
 
+  const seekTo = (seekTime: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = seekTime;
+
+    if (audioRef.current && isFinite(audioRef.current.duration)) {
+      audioRef.current.currentTime = Math.min(seekTime, audioRef.current.duration);
+    }
+    setCurrentTime(seekTime);
+    if (video.duration > 0) setProgress((seekTime / video.duration) * 100);
+  };
+
+  useImperativeHandle(playerRef, () => ({ seekTo }));
+
   const handleSeek = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (videoRef.current) {
-      const pct = parseFloat(e.target.value);
-      const seekTime = (pct / 100) * videoRef.current.duration;
-      videoRef.current.currentTime = seekTime;
-      
-      if (audioRef.current && isFinite(audioRef.current.duration)) {
-        audioRef.current.currentTime = (pct / 100) * audioRef.current.duration;
-      }
-      setProgress(pct);
+      seekTo((parseFloat(e.target.value) / 100) * videoRef.current.duration);
     }
   };
 
@@ -148,13 +173,81 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName
     }
   };
 
+  const handleDownloadSubtitles = (format: SubtitleFormat) => {
+    if (!segments) return;
+    const content = serializeSubtitles(segmentsToCues(segments), format);
+    const mimeType = format === 'vtt' ? 'text/vtt' : 'application/x-subrip';
+    const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `subtitles_${fileName.replace(/\.[^.]+$/, '')}.${format}`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  const downloadExport = (blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `dubbed_${fileName}.webm`;
+    a.click();
+    // Some browsers start the download after click() returns, so release the URL on the next task
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  /**
+   * Decodes, composites and encodes every frame without playing the video.
+   * Resolves to false when this source or browser needs the real-time recorder.
+   */
+  const exportOffline = async (canvas: HTMLCanvasElement, signal: AbortSignal): Promise<boolean> => {
+    const videoData = await (await fetch(videoUrl, { signal })).arrayBuffer();
+    const source = await demuxVideoSource(videoData);
+    if (!source) return false;
+    signal.throwIfAborted();
+
+    const dubData = await (await fetch(audioUrl!, { signal })).arrayBuffer();
+    // Decoding the soundtrack detaches videoData, which demuxing is done with
+    const audio = await mixExportAudio(dubData, isMuted ? null : videoData, {
+      duration: source.duration,
+      dubVolume,
+      bedEnvelope: buildDuckingEnvelope(segments || [], originalVolume, originalVolume * DUCK_LEVEL),
+    });
+    signal.throwIfAborted();
+
+    // Snapshot the style so changes mid-export do not alter the result
+    const burnInStyle = subtitleStyle.burnIn ? { ...subtitleStyle } : null;
+    const blob = await exportVideoOffline(source, audio, {
+      canvas,
+      overlay: burnInStyle && segments
+        ? (ctx, time) => {
+            const active = getActiveSegment(segments, time);
+            if (active) drawSubtitles(ctx, getSubtitleLines(active, burnInStyle), burnInStyle, canvas.width, canvas.height);
+          }
+        : undefined,
+      onProgress: fraction => setRecordingProgress(fraction * 100),
+      signal,
+    });
+    if (!blob) return false;
+    if (!signal.aborted) downloadExport(blob);
+    return true;
+  };
+
   /**
-   * Records the synchronized video and audio to a file
+   * Exports the synchronized video and audio to a file: offline with WebCodecs
+   * where available, otherwise by recording a real-time playback
    */
   const handleDownloadVideo = async () => {
     if (!videoRef.current || !audioRef.current || !audioUrl) return;
 
+    const canvas = canvasRef.current;
+    if(!canvas) return;
+
+    const controller = new AbortController();
+    exportControllerRef.current = controller;
+    const { signal } = controller;
+
     setIsRecording(true);
+    setRecordingProgress(0);
     setIsPlaying(false);
     
     // Pause everything first
@@ -163,9 +256,21 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName
     videoRef.current.currentTime = 0;
     audioRef.current.currentTime = 0;
 
-    const canvas = canvasRef.current;
-    if(!canvas) return;
-    
+    if (supportsOfflineExport()) {
+      let exported = false;
+      try {
+        exported = await exportOffline(canvas, signal);
+      } catch (e) {
+        if (!signal.aborted) console.warn("Offline export failed, recording in real time instead", e);
+      }
+      if (exported || signal.aborted) {
+        exportControllerRef.current = null;
+        setIsRecording(false);
+        return;
+      }
+      setRecordingProgress(0);
+    }
+
     const ctx = canvas.getContext('2d');
     const video = videoRef.current;
     
@@ -177,19 +282,51 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName
     // Setup Audio Stream
     const audioContext = new AudioContext();
     const dest = audioContext.createMediaStreamDestination();
-    
-    // Create source from the Audio Element is tricky due to CORS/Cross-origin.
-    // Instead, we will fetch the audio blob and decode it to play in AudioContext for recording.
-    const audioResponse = await fetch(audioUrl);
-    const audioArrayBuffer = await audioResponse.arrayBuffer();
-    const audioBuffer = await audioContext.decodeAudioData(audioArrayBuffer);
-    
-    const audioSource = audioContext.createBufferSource();
-    audioSource.buffer = audioBuffer;
-    audioSource.connect(dest);
-    
-    // Apply playback rate to audio source
-    audioSource.playbackRate.value = playbackRates.audio;
+
+    const resetPlayer = () => {
+      exportControllerRef.current = null;
+      setIsRecording(false);
+      audioContext.close();
+      video.currentTime = 0;
+      if (audioRef.current) audioRef.current.currentTime = 0;
+    };
+
+    let audioSource: AudioBufferSourceNode;
+    let bedSource: AudioBufferSourceNode | null = null;
+    let bedGain: GainNode | null = null;
+    try {
+      // Create source from the Audio Element is tricky due to CORS/Cross-origin.
+      // Instead, we will fetch the audio blob and decode it to play in AudioContext for recording.
+      const audioResponse = await fetch(audioUrl, { signal });
+      const audioArrayBuffer = await audioResponse.arrayBuffer();
+      const audioBuffer = await audioContext.decodeAudioData(audioArrayBuffer);
+      
+      audioSource = audioContext.createBufferSource();
+      audioSource.buffer = audioBuffer;
+      const dubGain = audioContext.createGain();
+      dubGain.gain.value = dubVolume;
+      audioSource.connect(dubGain).connect(dest);
+
+      // Mix the original soundtrack under the dub when it is not muted, ducked around each line
+      if (!isMuted) {
+        try {
+          const videoResponse = await fetch(videoUrl, { signal });
+          const bedBuffer = await audioContext.decodeAudioData(await videoResponse.arrayBuffer());
+          bedSource = audioContext.createBufferSource();
+          bedSource.buffer = bedBuffer;
+          bedGain = audioContext.createGain();
+          bedSource.connect(bedGain).connect(dest);
+        } catch (e) {
+          if (signal.aborted) throw e;
+          console.warn("Original audio could not be decoded, exporting dub only", e);
+        }
+      }
+      signal.throwIfAborted();
+    } catch (e) {
+      if (!signal.aborted) console.error("Export failed", e);
+      resetPlayer();
+      return;
+    }
 
     // Combine streams
     const combinedTracks = [
@@ -208,25 +345,24 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName
     };
     
     mediaRecorder.onstop = () => {
-      const blob = new Blob(chunks, { type: 'video/webm' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `dubbed_${fileName}.webm`;
-      a.click();
+      // A cancelled export is thrown away instead of downloaded
+      if (!signal.aborted) downloadExport(new Blob(chunks, { type: 'video/webm' }));
       
-      setIsRecording(false);
-      audioContext.close();
-      // Reset player
-      video.currentTime = 0;
-      if (audioRef.current) audioRef.current.currentTime = 0;
+      resetPlayer();
     };
 
+    // Snapshot the style so changes mid-export do not alter the recording
+    const burnInStyle = subtitleStyle.burnIn ? { ...subtitleStyle } : null;
+
     // Animation Loop for Drawing Video to Canvas
     let animationId: number;
     const drawFrame = () => {
        if (ctx && video) {
          ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+         if (burnInStyle && segments) {
+           const active = getActiveSegment(segments, video.currentTime);
+           if (active) drawSubtitles(ctx, getSubtitleLines(active, burnInStyle), burnInStyle, canvas.width, canvas.height);
+         }
        }
        if (mediaRecorder.state === 'recording') {
          animationId = requestAnimationFrame(drawFrame);
@@ -235,14 +371,31 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName
 
     // Start Recording
     mediaRecorder.start();
-    audioSource.start(0);
+    const startAt = audioContext.currentTime;
+    audioSource.start(startAt);
+    if (bedSource && bedGain) {
+      applyGainEnvelope(
+        bedGain.gain,
+        buildDuckingEnvelope(segments || [], originalVolume, originalVolume * DUCK_LEVEL),
+        startAt
+      );
+      bedSource.start(startAt);
+    }
     video.play();
-    video.playbackRate = playbackRates.video; // Ensure video plays at calculated speed
     drawFrame();
 
-    // Determine duration based on which one controls the length (the slowed down one defines real time, 
-    // but here we accelerated to match. The duration is simply the video.duration / video.rate)
-    const recordingDurationSec = video.duration / playbackRates.video;
+    // The dub is laid out on the video timeline, which plays in real time
+    const recordingDurationSec = video.duration;
+
+    const stopRecording = () => {
+      clearInterval(checkEnd);
+      cancelAnimationFrame(animationId);
+      mediaRecorder.stop();
+      audioSource.stop();
+      bedSource?.stop();
+      video.pause();
+    };
+    signal.addEventListener('abort', stopRecording, { once: true });
 
     // Stop logic
     const startTime = Date.now();
@@ -251,18 +404,22 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName
        setRecordingProgress((elapsed / recordingDurationSec) * 100);
 
        if (elapsed >= recordingDurationSec) {
-          clearInterval(checkEnd);
-          cancelAnimationFrame(animationId);
-          mediaRecorder.stop();
-          audioSource.stop();
-          video.pause();
+          signal.removeEventListener('abort', stopRecording);
+          stopRecording();
        }
     }, 100);
   };
 
+  const handleCancelExport = () => {
+    exportControllerRef.current?.abort();
+  };
+
+  const activeSegment = segments && subtitleStyle.showOverlay ? getActiveSegment(segments, currentTime) : undefined;
+  const overlayFontPx = (containerRef.current?.clientHeight || 360) * subtitleStyle.fontSize / 100;
+
   return (
     <div className="w-full bg-slate-800 rounded-xl overflow-hidden shadow-2xl border border-slate-700">
-      <div className="relative aspect-video bg-black group">
+      <div ref={containerRef} className="relative aspect-video bg-black group">
         <video
           ref={videoRef}
           src={videoUrl}
@@ -272,6 +429,24 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName
           onClick={isRecording ? undefined : togglePlay}
           crossOrigin="anonymous"
         />
+        {/* Subtitle Overlay */}
+        {activeSegment && !isRecording && (
+          <div
+            className={`absolute inset-x-0 flex flex-col items-center gap-1 px-[5%] pointer-events-none text-center font-semibold ${subtitleStyle.position === 'top' ? 'top-[6%]' : 'bottom-[6%]'}`}
+            style={{ fontSize: `${overlayFontPx}px`, lineHeight: 1.3 }}
+          >
+            {getSubtitleLines(activeSegment, subtitleStyle).map((line, index) => (
+              <span
+                key={index}
+                className={`px-[0.3em] ${line.isOriginal ? 'text-slate-300' : 'text-white'} ${subtitleStyle.background ? 'bg-black/65' : ''}`}
+                style={subtitleStyle.background ? undefined : { textShadow: '0 0 4px #000, 0 0 2px #000' }}
+              >
+                {line.text}
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Hidden Canvas for Recording */}
         <canvas ref={canvasRef} className="hidden" />
 
@@ -304,6 +479,13 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName
             <div className="w-64 h-2 bg-slate-700 rounded-full mt-4 overflow-hidden">
                <div className="h-full bg-emerald-500 transition-all duration-200" style={{ width: `${Math.min(recordingProgress, 100)}%` }} />
             </div>
+            <button
+              onClick={handleCancelExport}
+              className="mt-6 flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-red-600 rounded-lg text-sm font-medium transition-colors"
+            >
+              <X className="w-4 h-4" />
+              取消 (Cancel)
+            </button>
           </div>
         )}
       </div>
@@ -319,30 +501,85 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ videoUrl, audioUrl, fileName
           disabled={isRecording}
           className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400 disabled:opacity-50"
         />
+
+        {segments && segments.length > 0 && (
+          <SubtitleSettings style={subtitleStyle} onChange={setSubtitleStyle} disabled={isRecording} />
+        )}
         
         <div className="flex flex-col md:flex-row items-center justify-between gap-4 text-slate-300">
           <div className="flex items-center gap-4 w-full md:w-auto">
             <button onClick={togglePlay} disabled={isRecording} className="hover:text-white transition-colors disabled:opacity-50">
               {isPlaying ? <Pause className="w-6 h-6" /> : <Play className="w-6 h-6" />}
             </button>
+            {tracks.length > 1 && onTrackChange && (
+              <select
+                value={activeTrack}
+                onChange={(e) => onTrackChange(e.target.value)}
+                disabled={isRecording}
+                title="配音音轨 (Dub Track)"
+                className="bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 disabled:opacity-50"
+              >
+                {tracks.map(track => (
+                  <option key={track} value={track}>{track}</option>
+                ))}
+              </select>
+            )}
             <div className="flex flex-col">
                 <span className="text-sm font-medium text-slate-400">
                 {audioUrl ? "配音模式 (Dubbing Mode)" : "原声模式 (Original)"}
                 </span>
-                {audioUrl && (
-                    <span className="text-[10px] text-emerald-400">
-                        Sync: {playbackRates.video !== 1 ? `Video ${playbackRates.video.toFixed(2)}x` : `Audio ${playbackRates.audio.toFixed(2)}x`}
-                    </span>
-                )}
             </div>
           </div>
 
           <div className="flex items-center gap-4 w-full md:w-auto justify-end">
             <button onClick={toggleMute} disabled={isRecording} className="hover:text-white transition-colors flex items-center gap-2 text-xs uppercase tracking-wider font-semibold disabled:opacity-50">
               {isMuted ? <VolumeX className="w-5 h-5 text-red-400" /> : <Volume2 className="w-5 h-5" />}
-              <span className="hidden sm:inline">原视频音量 (Original Vol)</span>
+              <span className="hidden sm:inline">{audioUrl ? "原声背景 (Original Bed)" : "原视频音量 (Original Vol)"}</span>
             </button>
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.05"
+              value={originalVolume}
+              onChange={(e) => setOriginalVolume(parseFloat(e.target.value))}
+              disabled={isRecording || isMuted}
+              title="原声音量 (Original Volume)"
+              className="w-16 accent-blue-500 disabled:opacity-50"
+            />
+            {audioUrl && (
+              <label className="flex items-center gap-2 text-xs uppercase tracking-wider font-semibold">
+                <span className="hidden sm:inline">配音 (Dub)</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={dubVolume}
+                  onChange={(e) => setDubVolume(parseFloat(e.target.value))}
+                  disabled={isRecording}
+                  title="配音音量 (Dub Volume)"
+                  className="w-16 accent-emerald-500 disabled:opacity-50"
+                />
+              </label>
+            )}
             
+            {segments && segments.length > 0 && (
+              <div className="flex gap-2">
+                 {(['srt', 'vtt'] as SubtitleFormat[]).map(format => (
+                   <button
+                      key={format}
+                      onClick={() => handleDownloadSubtitles(format)}
+                      disabled={isRecording}
+                      className="flex items-center gap-2 px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white rounded-lg text-xs font-medium transition-colors disabled:opacity-50"
+                   >
+                      <FileText className="w-4 h-4" />
+                      {format.toUpperCase()}
+                   </button>
+                 ))}
+              </div>
+            )}
+
             {audioUrl && (
               <div className="flex gap-2">
                  <a 
@@ -0,0 +1,112 @@
+import { LanguageDefinition, Speaker } from './types';
+
+/**
+ * Prebuilt TTS voices. They are multilingual, so most languages allow all of them.
+ */
+export const DEFAULT_VOICES = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr'];
+
+export const VOICE_GENDERS: Record<string, 'male' | 'female'> = {
+  Puck: 'male',
+  Charon: 'male',
+  Kore: 'female',
+  Fenrir: 'male',
+  Zephyr: 'female'
+};
+
+/**
+ * Target language registry. Adding a language only needs a new entry here:
+ * the settings dropdown, the translation prompt and voice previews all read from it.
+ */
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    code: 'pt-BR',
+    displayName: '巴西葡萄牙语 (Portuguese BR)',
+    promptName: 'Brazilian Portuguese',
+    sampleSentence: "Olá, este é um exemplo da minha voz.",
+    voices: DEFAULT_VOICES
+  },
+  {
+    code: 'es-419',
+    displayName: '拉美西班牙语 (Spanish LatAm)',
+    promptName: 'Latin American Spanish',
+    sampleSentence: "Hola, este es un ejemplo de mi voz.",
+    voices: DEFAULT_VOICES
+  },
+  {
+    code: 'en-US',
+    displayName: '美式英语 (English US)',
+    promptName: 'American English',
+    sampleSentence: "Hello, this is a sample of my voice.",
+    voices: DEFAULT_VOICES
+  },
+  {
+    code: 'ja-JP',
+    displayName: '日语 (Japanese)',
+    promptName: 'Japanese',
+    sampleSentence: "こんにちは、これは私の声のサンプルです。",
+    voices: DEFAULT_VOICES
+  },
+  {
+    code: 'de-DE',
+    displayName: '德语 (German)',
+    promptName: 'German',
+    sampleSentence: "Hallo, das ist ein Beispiel meiner Stimme.",
+    voices: DEFAULT_VOICES
+  },
+  {
+    code: 'fr-FR',
+    displayName: '法语 (French)',
+    promptName: 'French (France)',
+    sampleSentence: "Bonjour, ceci est un exemple de ma voix.",
+    voices: DEFAULT_VOICES
+  },
+  {
+    code: 'hi-IN',
+    displayName: '印地语 (Hindi)',
+    promptName: 'Hindi',
+    sampleSentence: "नमस्ते, यह मेरी आवाज़ का एक नमूना है।",
+    voices: DEFAULT_VOICES
+  },
+  {
+    code: 'ko-KR',
+    displayName: '韩语 (Korean)',
+    promptName: 'Korean',
+    sampleSentence: "안녕하세요, 제 목소리 샘플입니다.",
+    voices: DEFAULT_VOICES
+  },
+  {
+    code: 'it-IT',
+    displayName: '意大利语 (Italian)',
+    promptName: 'Italian',
+    sampleSentence: "Ciao, questo è un esempio della mia voce.",
+    voices: DEFAULT_VOICES
+  }
+];
+
+export const getLanguage = (code: string): LanguageDefinition => {
+  const language = LANGUAGES.find(l => l.code === code);
+  if (!language) {
+    throw new Error(`Unsupported target language: ${code} / 不支持的目标语言`);
+  }
+  return language;
+};
+
+/**
+ * Picks a distinct voice of matching gender for each speaker where possible,
+ * falling back to the default voice once the matching voices run out
+ */
+export const suggestSpeakerVoices = (
+  speakers: Speaker[],
+  voices: string[],
+  defaultVoice: string
+): Record<string, string> => {
+  const used = new Set<string>();
+  const mapping: Record<string, string> = {};
+  for (const speaker of speakers) {
+    const candidates = voices.filter(v => speaker.gender === 'unknown' || VOICE_GENDERS[v] === speaker.gender);
+    const voice = candidates.find(v => !used.has(v)) || (candidates.includes(defaultVoice) ? defaultVoice : candidates[0]) || defaultVoice;
+    used.add(voice);
+    mapping[speaker.id] = voice;
+  }
+  return mapping;
+};
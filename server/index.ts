@@ -0,0 +1,216 @@
+import http from 'node:http';
+import { Readable } from 'node:stream';
+import { ContentListUnion, GenerateContentConfig, GoogleGenAI } from '@google/genai';
+import { createQuotaTracker, getRequestUser } from './quota';
+import { geminiProvider } from '../services/geminiService';
+
+/**
+ * Small proxy between the browser and Gemini. It holds the API key, so the
+ * client bundle never contains it, and applies per-user quotas and logging.
+ *
+ *   POST   /api/generate     generateContent (translation and TTS)
+ *   POST   /api/files        streams a media upload to the Files API
+ *   GET    /api/files/:id    file state, polled until ACTIVE
+ *   DELETE /api/files/:id    removes an upload
+ *
+ * Callers are told apart by address; uploads can only be read or removed by
+ * the address that made them.
+ */
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Variables may come from the real environment instead
+}
+
+const PORT = Number(process.env.PROXY_PORT || 8787);
+const API_KEY = process.env.GEMINI_API_KEY;
+const MAX_JSON_BYTES = 32 * 1024 * 1024; // Inline audio is sent base64 encoded
+const UPLOAD_ENDPOINT = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+
+// Proxies whose X-Forwarded-For is believed; by default the local dev server
+const TRUSTED_PROXIES = (process.env.PROXY_TRUSTED_PROXIES ?? '127.0.0.1,::1,::ffff:127.0.0.1')
+  .split(',')
+  .map(address => address.trim())
+  .filter(Boolean);
+
+// Only the models the app offers can be used through the proxy
+const ALLOWED_MODELS = new Set(Object.values(geminiProvider.models).flat());
+
+if (!API_KEY) {
+  console.error("GEMINI_API_KEY is not set; add it to .env.local or the environment.");
+  process.exit(1);
+}
+
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+const quota = createQuotaTracker({
+  requestsPerMinute: Number(process.env.PROXY_USER_RPM || 60),
+  requestsPerDay: Number(process.env.PROXY_USER_DAILY || 2000),
+});
+// Who uploaded each file ("files/<id>"), so others cannot poll or delete it
+const uploadOwners = new Map<string, string>();
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+const takeQuota = (userId: string) => {
+  const rejection = quota.take(userId);
+  if (!rejection) return;
+  const message = rejection.reason === 'day'
+    ? "Daily quota exceeded / 已超出每日配额"
+    : "Too many requests / 请求过于频繁";
+  // 429 is retried by the client; a spent daily quota is not worth retrying
+  throw new HttpError(rejection.reason === 'day' ? 403 : 429, message, { 'Retry-After': String(rejection.retryAfterSeconds) });
+};
+
+const readJson = async (req: http.IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_JSON_BYTES) throw new HttpError(413, "Request too large / 请求过大");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, "Invalid JSON / JSON 格式错误");
+  }
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A prompt, a content or part object, or a list of them; the SDK checks the details
+const isContents = (value: unknown): boolean =>
+  (typeof value === 'string' && value.length > 0)
+  || isRecord(value)
+  || (Array.isArray(value) && value.length > 0 && value.every(entry => typeof entry === 'string' || isRecord(entry)));
+
+const handleGenerate = async (req: http.IncomingMessage, log: Record<string, unknown>) => {
+  const body = await readJson(req);
+  if (!isRecord(body)) throw new HttpError(400, "Request body must be an object / 请求体必须是对象");
+  const { model, contents, config } = body;
+  log.model = model;
+  if (typeof model !== 'string' || !ALLOWED_MODELS.has(model)) {
+    throw new HttpError(400, `Model not allowed: ${String(model)} / 不允许的模型`);
+  }
+  if (!isContents(contents)) throw new HttpError(400, "Invalid contents / 内容格式错误");
+  if (config !== undefined && !isRecord(config)) throw new HttpError(400, "Invalid config / 配置格式错误");
+
+  const response = await ai.models.generateContent({
+    model,
+    contents: contents as ContentListUnion,
+    config: config as GenerateContentConfig | undefined,
+  });
+  // The client only reads these two fields
+  return { text: response.text, candidates: response.candidates };
+};
+
+/**
+ * Starts a resumable upload with the key and streams the request body into it,
+ * so large videos never have to fit into the proxy's memory
+ */
+const handleUpload = async (req: http.IncomingMessage, userId: string) => {
+  const size = req.headers['content-length'];
+  const mimeType = req.headers['content-type'] || 'application/octet-stream';
+  const displayName = decodeURIComponent(String(req.headers['x-file-name'] || 'upload'));
+  if (!size) throw new HttpError(411, "Content-Length required / 缺少 Content-Length");
+
+  const start = await fetch(`${UPLOAD_ENDPOINT}?key=${API_KEY}`, {
+    method: 'POST',
+    headers: {
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': size,
+      'X-Goog-Upload-Header-Content-Type': mimeType,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ file: { displayName } }),
+  });
+  const uploadUrl = start.headers.get('x-goog-upload-url');
+  if (!start.ok || !uploadUrl) throw new HttpError(start.status || 502, "Upload could not start / 无法开始上传");
+
+  const upload = await fetch(uploadUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Length': size,
+      'X-Goog-Upload-Offset': '0',
+      'X-Goog-Upload-Command': 'upload, finalize',
+    },
+    body: Readable.toWeb(req) as ReadableStream,
+    duplex: 'half',
+  } as RequestInit);
+  if (!upload.ok) throw new HttpError(upload.status, "Upload failed / 上传失败");
+  const body = await upload.json();
+  if (body?.file?.name) uploadOwners.set(body.file.name, userId);
+  return body;
+};
+
+/**
+ * Uploads of other users look the same as ones that do not exist
+ */
+const checkOwner = (name: string, userId: string) => {
+  if (uploadOwners.get(name) !== userId) throw new HttpError(404, "File not found / 文件不存在");
+};
+
+const server = http.createServer(async (req, res) => {
+  const started = Date.now();
+  const url = new URL(req.url || '/', 'http://localhost');
+  const { userId, clientId } = getRequestUser(req, TRUSTED_PROXIES);
+  const log: Record<string, unknown> = { user: userId, client: clientId, method: req.method, path: url.pathname };
+  // One JSON line per request
+  res.on('finish', () => {
+    console.log(JSON.stringify({
+      time: new Date(started).toISOString(),
+      ...log,
+      status: res.statusCode,
+      ms: Date.now() - started,
+    }));
+  });
+
+  try {
+    const fileMatch = /^\/api\/files\/([\w-]+)$/.exec(url.pathname);
+    if (req.method === 'POST' && url.pathname === '/api/generate') {
+      takeQuota(userId);
+      sendJson(res, 200, await handleGenerate(req, log));
+    } else if (req.method === 'POST' && url.pathname === '/api/files') {
+      takeQuota(userId);
+      sendJson(res, 200, await handleUpload(req, userId));
+    } else if (req.method === 'GET' && fileMatch) {
+      const name = `files/${fileMatch[1]}`;
+      checkOwner(name, userId);
+      takeQuota(userId);
+      const file = await ai.files.get({ name });
+      sendJson(res, 200, { name: file.name, uri: file.uri, state: file.state });
+    } else if (req.method === 'DELETE' && fileMatch) {
+      const name = `files/${fileMatch[1]}`;
+      checkOwner(name, userId);
+      takeQuota(userId);
+      await ai.files.delete({ name });
+      uploadOwners.delete(name);
+      sendJson(res, 200, {});
+    } else {
+      throw new HttpError(404, "Not found");
+    }
+  } catch (error: any) {
+    // Gemini API errors carry their HTTP status, which is passed on for retries
+    const status = error instanceof HttpError ? error.status : (typeof error?.status === 'number' ? error.status : 500);
+    log.error = error?.message;
+    if (!res.headersSent) {
+      sendJson(res, status, { error: error?.message || "Proxy error" }, error instanceof HttpError ? error.headers : {});
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Gemini proxy listening on http://localhost:${PORT}`);
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createQuotaTracker, getRequestUser } from './quota';
+
+const START = Date.parse('2025-03-01T12:00:00Z');
+
+/**
+ * Tracker on a hand-driven clock
+ */
+const createTracker = (requestsPerMinute: number, requestsPerDay: number) => {
+  const clock = { time: START };
+  const tracker = createQuotaTracker({ requestsPerMinute, requestsPerDay }, () => clock.time);
+  return { clock, tracker };
+};
+
+describe('createQuotaTracker', () => {
+  it('rejects requests beyond the per-minute limit until the window moves on', () => {
+    const { clock, tracker } = createTracker(2, 100);
+    expect(tracker.take('a')).toBeNull();
+    clock.time += 20_000;
+    expect(tracker.take('a')).toBeNull();
+    expect(tracker.take('a')).toEqual({ reason: 'minute', retryAfterSeconds: 40 });
+
+    clock.time = START + 60_000;
+    expect(tracker.take('a')).toBeNull();
+  });
+
+  it('counts every user separately', () => {
+    const { tracker } = createTracker(1, 100);
+    expect(tracker.take('a')).toBeNull();
+    expect(tracker.take('b')).toBeNull();
+    expect(tracker.take('a')?.reason).toBe('minute');
+  });
+
+  it('resets the daily cap at midnight UTC', () => {
+    const { clock, tracker } = createTracker(100, 2);
+    expect(tracker.take('a')).toBeNull();
+    expect(tracker.take('a')).toBeNull();
+    expect(tracker.take('a')).toEqual({ reason: 'day', retryAfterSeconds: 12 * 60 * 60 });
+
+    clock.time = Date.parse('2025-03-02T00:00:00Z');
+    expect(tracker.take('a')).toBeNull();
+  });
+});
+
+describe('getRequestUser', () => {
+  const request = (remoteAddress: string, clientId?: string, forwardedFor?: string) => ({
+    headers: {
+      ...(clientId ? { 'x-client-id': clientId } : {}),
+      ...(forwardedFor ? { 'x-forwarded-for': forwardedFor } : {}),
+    },
+    socket: { remoteAddress },
+  }) as any;
+  const PROXIES = ['127.0.0.1', '10.0.0.100'];
+
+  it('keeps the client id for the logs only', () => {
+    expect(getRequestUser(request('10.0.0.1', 'browser-1234'))).toEqual({ userId: '10.0.0.1', clientId: 'browser-1234' });
+    expect(getRequestUser(request('10.0.0.1', 'bad id!'))).toEqual({ userId: '10.0.0.1', clientId: undefined });
+  });
+
+  it('does not hand out a fresh quota for a rotated client id', () => {
+    const { tracker } = createTracker(2, 100);
+    const take = (clientId: string) => tracker.take(getRequestUser(request('10.0.0.1', clientId)).userId);
+    expect(take('client-aaaaaaaa')).toBeNull();
+    expect(take('client-bbbbbbbb')).toBeNull();
+    expect(take('client-cccccccc')?.reason).toBe('minute');
+
+    expect(tracker.take(getRequestUser(request('10.0.0.2', 'client-cccccccc')).userId)).toBeNull();
+  });
+
+  it('tells apart browsers behind a trusted proxy', () => {
+    const { tracker } = createTracker(1, 100);
+    const take = (forwardedFor: string) => tracker.take(getRequestUser(request('127.0.0.1', undefined, forwardedFor), PROXIES).userId);
+    expect(take('192.168.1.10')).toBeNull();
+    expect(take('192.168.1.11')).toBeNull();
+    expect(take('192.168.1.10')?.reason).toBe('minute');
+  });
+
+  it('skips every trusted hop and ignores addresses the client made up', () => {
+    expect(getRequestUser(request('127.0.0.1', undefined, '1.2.3.4, 192.168.1.10, 10.0.0.100'), PROXIES).userId).toBe('192.168.1.10');
+    expect(getRequestUser(request('127.0.0.1', undefined, '1.2.3.4'), []).userId).toBe('127.0.0.1');
+    expect(getRequestUser(request('10.0.0.5', undefined, '1.2.3.4'), PROXIES).userId).toBe('10.0.0.5');
+  });
+});
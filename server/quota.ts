@@ -0,0 +1,100 @@
+import type { IncomingMessage } from 'node:http';
+
+export interface QuotaOptions {
+  requestsPerMinute: number;
+  requestsPerDay: number;
+}
+
+export interface QuotaRejection {
+  reason: 'minute' | 'day';
+  retryAfterSeconds: number;
+}
+
+interface UserUsage {
+  recent: number[]; // Request times within the last minute
+  day: string; // UTC date the daily count belongs to
+  dailyCount: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+const utcDay = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Per-user request quotas: a sliding one-minute window plus a daily cap that
+ * resets at midnight UTC. Unlike the client's rate limiter this rejects
+ * instead of waiting, so one user cannot hold requests open on the server.
+ */
+export const createQuotaTracker = (options: QuotaOptions, now: () => number = Date.now) => {
+  const usage = new Map<string, UserUsage>();
+
+  return {
+    /**
+     * Counts a request for the user when it is within quota, otherwise says why not
+     */
+    take: (userId: string): QuotaRejection | null => {
+      const time = now();
+      const day = utcDay(time);
+      let user = usage.get(userId);
+      if (!user) {
+        user = { recent: [], day, dailyCount: 0 };
+        usage.set(userId, user);
+      }
+      if (user.day !== day) {
+        user.day = day;
+        user.dailyCount = 0;
+      }
+      user.recent = user.recent.filter(t => time - t < MINUTE_MS);
+
+      if (user.dailyCount >= options.requestsPerDay) {
+        const midnight = Date.parse(`${day}T00:00:00Z`) + 24 * 60 * MINUTE_MS;
+        return { reason: 'day', retryAfterSeconds: Math.ceil((midnight - time) / 1000) };
+      }
+      if (user.recent.length >= options.requestsPerMinute) {
+        const retryAfterMs = MINUTE_MS - (time - user.recent[0]);
+        return { reason: 'minute', retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)) };
+      }
+
+      user.recent.push(time);
+      user.dailyCount++;
+      return null;
+    },
+  };
+};
+
+export type QuotaTracker = ReturnType<typeof createQuotaTracker>;
+
+export interface RequestUser {
+  userId: string; // Quotas and uploads belong to this
+  clientId?: string; // Browser behind the address, for the logs only
+}
+
+/**
+ * Identifies the caller by its address. The browser also sends a random id it
+ * keeps in localStorage, but a client can send a new one with every request,
+ * so it never decides whose quota or upload a request counts against.
+ *
+ * Requests from `trustedProxies` (e.g. the Vite dev server or a reverse proxy)
+ * count against the address they were forwarded for. Each proxy appends the
+ * address it saw to X-Forwarded-For, so the list is read from the right and
+ * entries a client wrote itself are never reached.
+ */
+export const getRequestUser = (
+  req: Pick<IncomingMessage, 'headers' | 'socket'>,
+  trustedProxies: string[] = []
+): RequestUser => {
+  const forwarded = ([] as string[]).concat(req.headers['x-forwarded-for'] ?? [])
+    .flatMap(value => value.split(','))
+    .map(address => address.trim())
+    .filter(Boolean);
+  let address = req.socket.remoteAddress || 'unknown';
+  while (trustedProxies.includes(address) && forwarded.length > 0) {
+    address = forwarded.pop()!;
+  }
+
+  const header = req.headers['x-client-id'];
+  return {
+    userId: address,
+    clientId: typeof header === 'string' && /^[\w-]{8,64}$/.test(header) ? header : undefined,
+  };
+};
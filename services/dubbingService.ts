@@ -0,0 +1,416 @@
+import { audioBufferToWavUrl, assembleTimeline, TimedClip, decodeSpeechAudio, speechAudioToFile, findSilenceBoundaries } from '../utils/audioUtils';
+import { TranscriptSegment, VideoAnalysis, Speaker, AnalysisInput, ModelSelection, GlossaryEntry, TranslationStyle, DEFAULT_TRANSLATION_STYLE, QaIssue, SegmentOverflow } from '../types';
+import { createRateLimiter, withRetry } from '../utils/rateLimit';
+import { checkTranslation, estimateSpeechSeconds, mergeQaIssues } from '../utils/translationQa';
+import { findOverflows, getAvailableTimes } from '../utils/isochrony';
+import { ChunkContext, DubbingProvider, PreparedMedia, SpeakingBudget } from './providers';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+
+export const PROVIDERS: DubbingProvider[] = [geminiProvider, mockProvider];
+
+export const getProvider = (id: string): DubbingProvider => {
+  const provider = PROVIDERS.find(p => p.id === id);
+  if (!provider) throw new Error(`Unknown provider: ${id} / 未知的服务提供方`);
+  return provider;
+};
+
+/**
+ * The first model of each stage, used when a provider is picked
+ */
+export const defaultModels = (provider: DubbingProvider): ModelSelection => ({
+  transcription: provider.models.transcription[0],
+  translation: provider.models.translation[0],
+  speech: provider.models.speech[0],
+});
+
+let activeProvider: DubbingProvider = geminiProvider;
+let activeModels: ModelSelection = defaultModels(geminiProvider);
+
+export const setProvider = (id: string, models?: Partial<ModelSelection>) => {
+  activeProvider = getProvider(id);
+  activeModels = { ...defaultModels(activeProvider), ...models };
+};
+
+// Applied to every transcription and translation request
+let activeGlossary: GlossaryEntry[] = [];
+
+let activeStyle: TranslationStyle = DEFAULT_TRANSLATION_STYLE;
+
+export const setGlossary = (glossary: GlossaryEntry[]) => {
+  activeGlossary = glossary;
+};
+
+export const setTranslationStyle = (style: TranslationStyle) => {
+  activeStyle = style;
+};
+
+// Lines are rephrased until their speech fits at this speed-up at most
+let activeMaxSpeedUp = 1.15;
+
+export const setMaxSpeedUp = (maxSpeedUp: number) => {
+  activeMaxSpeedUp = maxSpeedUp;
+};
+
+// One limiter for every provider call, so concurrent batch jobs share the same quota
+const rateLimiter = createRateLimiter(30, 2);
+
+export const setRequestsPerMinute = (requestsPerMinute: number) => {
+  rateLimiter.setRate(requestsPerMinute);
+};
+
+/**
+ * Every provider request goes through here: rate limited, retried with
+ * exponential backoff on 429 / 5xx responses, and abortable through `signal`
+ */
+const callProvider = <T>(label: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> =>
+  withRetry(async () => {
+    await rateLimiter.acquire(signal);
+    return fn();
+  }, {
+    signal,
+    onRetry: (attempt, delayMs, error) =>
+      console.warn(`Retrying ${label} (attempt ${attempt}) in ${Math.round(delayMs)}ms`, error),
+  });
+
+// Long recordings are analyzed in parts so the script fits the output token limit
+const CHUNK_SECONDS = 300;
+const CHUNK_OVERLAP_SECONDS = 3;
+const CONTEXT_LINES = 3;
+
+export interface AnalyzeMediaOptions {
+  input: AnalysisInput;
+  signal?: AbortSignal;
+  onProgress?: (stage: 'uploading' | 'translating', fraction: number) => void;
+  // Called between chunks so paused jobs stop there
+  checkpoint?: () => Promise<void>;
+}
+
+/**
+ * Step 1: Transcribe and translate a whole file. Extracts the soundtrack when
+ * asked to, splits long recordings at silences, analyzes every chunk with the
+ * lines before it as context and stitches the results onto one timeline.
+ */
+export const analyzeMedia = async (
+  file: File,
+  targetLanguage: string,
+  options: AnalyzeMediaOptions
+): Promise<VideoAnalysis> => {
+  const { signal, onProgress = () => {}, checkpoint = async () => {} } = options;
+  const { transcriber } = activeProvider;
+  const model = activeModels.transcription;
+
+  let speech: AudioBuffer | undefined;
+  try {
+    speech = await decodeSpeechAudio(file, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // Without a decodable soundtrack the video goes up whole, in one piece
+    console.warn("Audio could not be decoded, sending the video instead", error);
+  }
+
+  const boundaries = speech ? findSilenceBoundaries(speech, CHUNK_SECONDS) : [0, Infinity];
+  const chunkCount = boundaries.length - 1;
+  const sendAudio = options.input === 'audio' && !!speech;
+
+  // Video is uploaded once and clipped per chunk; audio is uploaded chunk by chunk
+  const sharedVideo = sendAudio
+    ? undefined
+    : await transcriber.prepareMedia(file, fraction => onProgress('uploading', fraction), signal);
+
+  const segments: TranscriptSegment[] = [];
+  const speakers = new Map<string, Speaker>();
+  let sourceLanguage: string | undefined;
+  try {
+    for (let index = 0; index < chunkCount; index++) {
+      await checkpoint();
+      const start = boundaries[index];
+      const end = boundaries[index + 1];
+      const overlap = index === 0 ? 0 : Math.min(CHUNK_OVERLAP_SECONDS, start);
+      const chunk: ChunkContext | undefined = chunkCount > 1 ? {
+        index,
+        count: chunkCount,
+        start,
+        end,
+        overlap,
+        speakers: [...speakers.values()],
+        previousLines: segments.slice(-CONTEXT_LINES),
+      } : undefined;
+
+      let media: PreparedMedia | undefined = sharedVideo;
+      if (!media) {
+        const audio = speechAudioToFile(speech!, file.name, start - overlap, end);
+        media = await transcriber.prepareMedia(audio, fraction => onProgress('uploading', (index + fraction) / chunkCount), signal);
+      }
+
+      let analysis: VideoAnalysis;
+      try {
+        onProgress('translating', index / chunkCount);
+        const prepared = media;
+        analysis = await callProvider(
+          model,
+          () => transcriber.transcribe(prepared, targetLanguage, { model, signal, chunk, glossary: activeGlossary, style: activeStyle }),
+          signal
+        );
+      } finally {
+        if (media !== sharedVideo) transcriber.releaseMedia(media);
+      }
+
+      const offset = start - overlap;
+      for (const segment of analysis.segments) {
+        const shifted = { ...segment, start: segment.start + offset, end: segment.end + offset };
+        // Lines inside the overlap were already returned with the previous chunk
+        if (shifted.end <= start + 0.05) continue;
+        segments.push(shifted);
+      }
+      analysis.speakers.forEach(speaker => {
+        if (!speakers.has(speaker.id)) speakers.set(speaker.id, speaker);
+      });
+      // Chunks of silence or music cannot tell; the first that can decides
+      if (!sourceLanguage) sourceLanguage = analysis.sourceLanguage;
+    }
+  } finally {
+    if (sharedVideo) transcriber.releaseMedia(sharedVideo);
+  }
+  onProgress('translating', 1);
+
+  if (segments.length === 0) throw new Error("No speech detected / 未检测到语音");
+  segments.sort((a, b) => a.start - b.start);
+  segments.forEach((segment, index) => { segment.id = `seg-${index}`; });
+  // Neighbouring chunks may both claim a moment around the split
+  for (let i = 0; i < segments.length - 1; i++) {
+    if (segments[i].end > segments[i + 1].start) {
+      segments[i].end = Math.max(segments[i].start + 0.01, segments[i + 1].start);
+    }
+  }
+
+  // Transcription-only providers leave the translation to the translator
+  const translated = segments.some(segment => !segment.translatedText)
+    ? await translateSegments(segments, targetLanguage, signal)
+    : segments;
+  return { segments: translated, speakers: [...speakers.values()], sourceLanguage };
+};
+
+/**
+ * Step 1 (fan-out): Translate already-analysed segments into another language,
+ * each line within the speaking time its original slot allows
+ */
+export const translateSegments = (
+  segments: TranscriptSegment[],
+  targetLanguage: string,
+  signal?: AbortSignal,
+  totalDuration: number = 0
+): Promise<TranscriptSegment[]> => {
+  const { translator } = activeProvider;
+  const model = activeModels.translation;
+  const budgets: Record<string, SpeakingBudget> = {};
+  for (const [id, available] of Object.entries(getAvailableTimes(segments, totalDuration))) {
+    budgets[id] = { maxSeconds: available * activeMaxSpeedUp };
+  }
+  return callProvider(model, () => translator.translate(segments, targetLanguage, { model, signal, glossary: activeGlossary, style: activeStyle, budgets }), signal);
+};
+
+// Requests for shorter versions before the remaining lines are only reported
+const MAX_REPHRASE_ROUNDS = 2;
+
+/**
+ * Asks the translator for shorter versions of the overflowing lines
+ */
+const rephraseOverflows = async (
+  segments: TranscriptSegment[],
+  overflows: SegmentOverflow[],
+  targetLanguage: string,
+  signal?: AbortSignal
+): Promise<TranscriptSegment[]> => {
+  const { translator } = activeProvider;
+  const model = activeModels.translation;
+  const budgets: Record<string, SpeakingBudget> = {};
+  overflows.forEach(overflow => {
+    budgets[overflow.segmentId] = { maxSeconds: overflow.available * activeMaxSpeedUp, currentSeconds: overflow.needed };
+  });
+  const long = segments.filter(segment => budgets[segment.id]);
+  const shorter = await callProvider(
+    model,
+    () => translator.rephrase!(long, targetLanguage, { model, signal, glossary: activeGlossary, style: activeStyle, budgets }),
+    signal
+  );
+  const texts = new Map(shorter.map(segment => [segment.id, segment.translatedText]));
+  return segments.map(segment => texts.has(segment.id) ? { ...segment, translatedText: texts.get(segment.id)! } : segment);
+};
+
+/**
+ * Step 1 (isochrony): Rephrase lines whose estimated speech would not fit
+ * their slot at the maximum speed-up, before any of them is voiced
+ */
+export const fitTranslations = async (
+  segments: TranscriptSegment[],
+  targetLanguage: string,
+  totalDuration: number = 0,
+  signal?: AbortSignal
+): Promise<TranscriptSegment[]> => {
+  if (!activeProvider.translator.rephrase) return segments;
+  let fitted = segments;
+  for (let round = 0; round < MAX_REPHRASE_ROUNDS; round++) {
+    const overflows = findOverflows(fitted, activeMaxSpeedUp, totalDuration, segment => estimateSpeechSeconds(segment.translatedText));
+    if (overflows.length === 0) break;
+    fitted = await rephraseOverflows(fitted, overflows, targetLanguage, signal);
+  }
+  return fitted;
+};
+
+/**
+ * Voiced lines that would still need more than the maximum speed-up
+ */
+export const findSpeechOverflows = (segments: TranscriptSegment[], totalDuration: number = 0): SegmentOverflow[] =>
+  findOverflows(segments, activeMaxSpeedUp, totalDuration, segment => segment.audioDuration);
+
+/**
+ * Step 1 (optional): Check finished translations for dropped numbers, leftovers
+ * and overlong lines, plus whatever the provider's reviewer finds. A failed
+ * review only loses the model findings; it does not fail the item.
+ */
+export const reviewTranslation = async (
+  segments: TranscriptSegment[],
+  targetLanguage: string,
+  sourceLanguage?: string,
+  signal?: AbortSignal
+): Promise<Record<string, QaIssue[]>> => {
+  const issues = checkTranslation(segments, { sourceLanguage, targetLanguage });
+  const { reviewer } = activeProvider;
+  if (!reviewer) return issues;
+
+  const model = activeModels.translation;
+  try {
+    const found = await callProvider(model, () => reviewer.review(segments, targetLanguage, { model, signal }), signal);
+    return mergeQaIssues(issues, found);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn("Translation review failed, keeping the local checks only", error);
+    return issues;
+  }
+};
+
+const synthesizeClip = async (
+  text: string,
+  voiceName: string,
+  signal?: AbortSignal
+): Promise<{ audioUrl: string; audioDuration: number }> => {
+  try {
+    const { synthesizer } = activeProvider;
+    const model = activeModels.speech;
+    const audioBuffer = await callProvider(model, () => synthesizer.synthesize(text, voiceName, { model, signal }), signal);
+    return { audioUrl: audioBufferToWavUrl(audioBuffer), audioDuration: audioBuffer.duration };
+
+  } catch (error) {
+    console.error("TTS Error:", error);
+    throw error;
+  }
+};
+
+/**
+ * Step 2: Generate Speech from Text
+ */
+export const generateSpeech = async (
+  text: string,
+  voiceName: string = 'Kore',
+  signal?: AbortSignal
+): Promise<string> => (await synthesizeClip(text, voiceName, signal)).audioUrl;
+
+/**
+ * Step 2 (per line): Synthesize every segment that has no clip yet, in its speaker's voice
+ */
+export const synthesizeSegments = async (
+  segments: TranscriptSegment[],
+  voiceName: string = 'Kore',
+  speakerVoices: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<TranscriptSegment[]> => {
+  const voiced: TranscriptSegment[] = [];
+  const created: string[] = [];
+  try {
+    for (const segment of segments) {
+      if (segment.audioUrl) {
+        voiced.push(segment);
+        continue;
+      }
+      const voice = (segment.speakerId && speakerVoices[segment.speakerId]) || voiceName;
+      const clip = await synthesizeClip(segment.translatedText, voice, signal);
+      created.push(clip.audioUrl);
+      voiced.push({ ...segment, ...clip });
+    }
+    return voiced;
+  } catch (error) {
+    // Clips made by this call are unreachable once it fails
+    created.forEach(url => URL.revokeObjectURL(url));
+    throw error;
+  }
+};
+
+/**
+ * Step 2 (isochrony): Measure the voiced lines, rephrase and voice again the
+ * ones that still overflow, and report what is left over
+ */
+export const fitSpeech = async (
+  segments: TranscriptSegment[],
+  targetLanguage: string,
+  voiceName: string,
+  speakerVoices: Record<string, string> = {},
+  totalDuration: number = 0,
+  signal?: AbortSignal
+): Promise<{ segments: TranscriptSegment[]; overflows: SegmentOverflow[] }> => {
+  const overflows = findSpeechOverflows(segments, totalDuration);
+  if (overflows.length === 0 || !activeProvider.translator.rephrase) return { segments, overflows };
+
+  const rephrased = await rephraseOverflows(segments, overflows, targetLanguage, signal);
+  const changed = rephrased.map((segment, index) => segment.translatedText !== segments[index].translatedText);
+  const voiced = await synthesizeSegments(
+    rephrased.map((segment, index) => changed[index] ? { ...segment, audioUrl: undefined, audioDuration: undefined } : segment),
+    voiceName,
+    speakerVoices,
+    signal
+  );
+  segments.forEach((segment, index) => {
+    if (changed[index] && segment.audioUrl) URL.revokeObjectURL(segment.audioUrl);
+  });
+  return { segments: voiced, overflows: findSpeechOverflows(voiced, totalDuration) };
+};
+
+const DUB_SAMPLE_RATE = 24000;
+
+/**
+ * Step 3: Place every segment clip at its start time in a single dub track
+ */
+export const assembleDubTrack = async (
+  segments: TranscriptSegment[],
+  totalDuration: number = 0,
+  signal?: AbortSignal
+): Promise<string> => {
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: DUB_SAMPLE_RATE });
+
+  try {
+    const clips: TimedClip[] = [];
+    for (const segment of segments) {
+      if (!segment.audioUrl) continue;
+      const response = await fetch(segment.audioUrl, { signal });
+      const buffer = await audioContext.decodeAudioData(await response.arrayBuffer());
+      clips.push({ start: segment.start, end: segment.end, buffer });
+    }
+
+    signal?.throwIfAborted();
+    const track = assembleTimeline(clips, totalDuration, audioContext, activeMaxSpeedUp);
+    return audioBufferToWavUrl(track);
+
+  } finally {
+    await audioContext.close();
+  }
+};
+
+/**
+ * Preview a specific voice model
+ */
+export const previewVoiceModel = async (
+  text: string,
+  voiceName: string
+): Promise<string> => {
+  return generateSpeech(text, voiceName);
+};
@@ -1,5 +1,10 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { decodeBase64, decodeAudioData, audioBufferToWavUrl } from '../utils/audioUtils';
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse, Modality, Type } from "@google/genai";
+import { decodeBase64, decodeAudioData, fileToBase64 } from '../utils/audioUtils';
+import { TranscriptSegment, VideoAnalysis, Speaker, SpeakerGender, SpeakerAge, GlossaryEntry, TranslationStyle, QaIssue, QaIssueType } from '../types';
+import { getLanguage } from '../languages';
+import { sleep } from '../utils/rateLimit';
+import { getGlossaryTerms } from '../utils/glossary';
+import { CallOptions, ChunkContext, DubbingProvider, PreparedMedia, TranscribeOptions, TranslateOptions } from './providers';
 
 // Initialize Gemini Client
 const getAiClient = () => {
@@ -9,49 +14,479 @@ const getAiClient = () => {
   return new GoogleGenAI({ apiKey: process.env.API_KEY });
 };
 
+// Without a key in the bundle every call goes through our proxy (server/index.ts),
+// which holds the key server side. GEMINI_DIRECT=true inlines it for local use.
+const PROXY_URL = process.env.GEMINI_PROXY_URL || '/api';
+const useProxy = !process.env.API_KEY;
+const CLIENT_ID_KEY = 'gemini-video-dubber:client-id';
+
+// Lets the proxy keep a separate quota per browser
+const getClientId = (): string => {
+  let id = localStorage.getItem(CLIENT_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(CLIENT_ID_KEY, id);
+  }
+  return id;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * What the Files API, directly or through the proxy, reports about an upload
+ */
+interface UploadedFile {
+  name: string;
+  uri: string;
+  mimeType: string;
+  state?: string;
+}
+
+const isUploadedFile = (value: unknown): value is UploadedFile =>
+  isRecord(value)
+  && typeof value.name === 'string'
+  && typeof value.uri === 'string'
+  && typeof value.mimeType === 'string'
+  && (value.state === undefined || typeof value.state === 'string');
+
+const proxyRequest = async (path: string, init: RequestInit = {}): Promise<Record<string, unknown>> => {
+  const response = await fetch(`${PROXY_URL}${path}`, {
+    ...init,
+    headers: { 'X-Client-Id': getClientId(), ...init.headers },
+  });
+  const body: unknown = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const message = isRecord(body) && typeof body.error === 'string' ? body.error : `Proxy request failed (${response.status}) / 代理请求失败`;
+    // Keep the status so 429 / 5xx responses are retried like direct API errors
+    throw Object.assign(new Error(message), { status: response.status });
+  }
+  if (!isRecord(body)) throw new Error("Invalid proxy response / 代理响应无效");
+  return body;
+};
+
+// Rate limiting and retries are applied by the dubbing pipeline around every provider call
+const generateContent = (
+  params: GenerateContentParameters,
+  signal?: AbortSignal
+): Promise<Pick<GenerateContentResponse, 'text' | 'candidates'>> => {
+  if (useProxy) {
+    // The proxy passes the SDK response on; its text is validated by each caller
+    return proxyRequest('/generate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+      signal,
+    }) as Promise<Pick<GenerateContentResponse, 'text' | 'candidates'>>;
+  }
+  return getAiClient().models.generateContent({
+    ...params,
+    config: { ...params.config, abortSignal: signal },
+  });
+};
+
+// Uploaded files are named "files/<id>"; the proxy routes on the id alone
+const proxyFilePath = (name: string) => `/files/${encodeURIComponent(name.replace(/^files\//, ''))}`;
+
+const getFileState = async (name: string, signal?: AbortSignal): Promise<string | undefined> => {
+  if (useProxy) {
+    const { state } = await proxyRequest(proxyFilePath(name), { signal });
+    return typeof state === 'string' ? state : undefined;
+  }
+  return (await getAiClient().files.get({ name, config: { abortSignal: signal } })).state;
+};
+
+const deleteFile = async (name: string): Promise<void> => {
+  if (useProxy) {
+    await proxyRequest(proxyFilePath(name), { method: 'DELETE' });
+    return;
+  }
+  await getAiClient().files.delete({ name });
+};
+
 /**
- * Step 1: Translate Video Content
+ * Media (extracted audio or the video itself) handed to the model: small files travel inline as base64, larger
+ * ones are uploaded once through the Files API and referenced by URI
  */
-export const translateVideoContent = async (
-  base64Video: string,
+type MediaInput = PreparedMedia & (
+  | { kind: 'inline'; data: string }
+  | { kind: 'file'; uri: string; name: string }
+);
+
+// Inline requests are capped at 20MB and base64 adds a third, so stay well below
+const INLINE_MEDIA_LIMIT = 14 * 1024 * 1024;
+const UPLOAD_ENDPOINT = 'https://generativelanguage.googleapis.com/upload/v1beta/files';
+const FILE_POLL_INTERVAL_MS = 2000;
+const FILE_POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Sends the bytes of a resumable upload with XHR, since fetch cannot report upload progress
+ */
+const sendUploadBytes = (
+  uploadUrl: string,
+  headers: Record<string, string>,
+  file: File,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<UploadedFile> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('POST', uploadUrl);
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress(e.loaded / e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        let body: unknown;
+        try {
+          body = JSON.parse(xhr.responseText);
+        } catch {
+          body = undefined;
+        }
+        const uploaded = isRecord(body) ? body.file : undefined;
+        if (isUploadedFile(uploaded)) resolve(uploaded);
+        else reject(new Error("Invalid upload response / 上传响应无效"));
+      } else {
+        reject(Object.assign(new Error(`Upload failed (${xhr.status}) / 上传失败`), { status: xhr.status }));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Upload failed / 上传失败"));
+    xhr.onabort = () => reject(signal?.reason ?? new Error("Upload aborted / 上传已中止"));
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.send(file);
+  });
+
+/**
+ * Starts a resumable Files API upload with the key and sends the bytes to it
+ */
+const uploadDirect = async (
+  file: File,
   mimeType: string,
-  targetLanguage: 'pt-BR' | 'es-419'
-): Promise<string> => {
-  const ai = getAiClient();
-  
-  const languageName = targetLanguage === 'pt-BR' ? 'Brazilian Portuguese' : 'Latin American Spanish';
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<UploadedFile> => {
+  if (!process.env.API_KEY) {
+    throw new Error("API Key is missing in environment variables.");
+  }
+  const start = await fetch(`${UPLOAD_ENDPOINT}?key=${process.env.API_KEY}`, {
+    method: 'POST',
+    headers: {
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(file.size),
+      'X-Goog-Upload-Header-Content-Type': mimeType,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ file: { displayName: file.name } }),
+    signal,
+  });
+  const uploadUrl = start.headers.get('x-goog-upload-url');
+  if (!start.ok || !uploadUrl) {
+    throw Object.assign(new Error(`Upload could not start (${start.status}) / 无法开始上传`), { status: start.status });
+  }
+
+  return sendUploadBytes(uploadUrl, {
+    'X-Goog-Upload-Offset': '0',
+    'X-Goog-Upload-Command': 'upload, finalize',
+  }, file, onProgress, signal);
+};
+
+/**
+ * Uploads a media file through the Files API and waits until it can be used in prompts
+ */
+const uploadMediaFile = async (
+  file: File,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<MediaInput> => {
+  const mimeType = file.type || 'video/mp4';
+  // The proxy streams the body on to the Files API with its own key
+  const uploaded = useProxy
+    ? await sendUploadBytes(`${PROXY_URL}/files`, {
+        'Content-Type': mimeType,
+        'X-Client-Id': getClientId(),
+        'X-File-Name': encodeURIComponent(file.name),
+      }, file, onProgress, signal)
+    : await uploadDirect(file, mimeType, onProgress, signal);
+  const source: MediaInput = { kind: 'file', mimeType, uri: uploaded.uri, name: uploaded.name };
+
+  try {
+    // Uploads are processed server side before they can be referenced
+    const deadline = Date.now() + FILE_POLL_TIMEOUT_MS;
+    let state = uploaded.state;
+    while (state !== 'ACTIVE') {
+      if (state === 'FAILED') throw new Error("Uploaded file could not be processed / 上传的文件处理失败");
+      if (Date.now() > deadline) throw new Error("Timed out waiting for uploaded file / 等待上传文件处理超时");
+      await sleep(FILE_POLL_INTERVAL_MS, signal);
+      state = await getFileState(source.name, signal);
+    }
+  } catch (error) {
+    await releaseMediaInput(source);
+    throw error;
+  }
+  return source;
+};
+
+/**
+ * Reads small files inline and uploads larger ones, reporting progress as a fraction
+ */
+const prepareMediaInput = async (
+  file: File,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<MediaInput> => {
+  if (file.size <= INLINE_MEDIA_LIMIT) {
+    const data = await fileToBase64(file, signal);
+    onProgress(1);
+    return { kind: 'inline', mimeType: file.type, data };
+  }
+  return uploadMediaFile(file, onProgress, signal);
+};
+
+/**
+ * Deletes the remote copy of an uploaded file. Failures are only logged:
+ * the Files API removes uploads on its own after 48 hours.
+ */
+const releaseMediaInput = async (source: MediaInput): Promise<void> => {
+  if (source.kind !== 'file') return;
+  try {
+    await deleteFile(source.name);
+  } catch (error) {
+    console.warn(`Could not delete uploaded file ${source.name}`, error);
+  }
+};
+
+const SPEAKER_GENDERS: SpeakerGender[] = ['male', 'female', 'unknown'];
+const SPEAKER_AGES: SpeakerAge[] = ['child', 'young', 'adult', 'senior', 'unknown'];
+
+const analysisSchema = {
+  type: Type.OBJECT,
+  properties: {
+    sourceLanguage: { type: Type.STRING, description: "BCP-47 code of the spoken language, e.g. en, es, zh-CN." },
+    speakers: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: "Speaker label such as S1, S2." },
+          gender: { type: Type.STRING, enum: SPEAKER_GENDERS },
+          age: { type: Type.STRING, enum: SPEAKER_AGES },
+        },
+        required: ["id", "gender", "age"],
+        propertyOrdering: ["id", "gender", "age"],
+      },
+    },
+    segments: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: "Start time of the line in seconds." },
+          end: { type: Type.NUMBER, description: "End time of the line in seconds." },
+          speakerId: { type: Type.STRING, description: "Id of the speaker from the speakers list." },
+          sourceText: { type: Type.STRING, description: "What was said, in the original language." },
+          translatedText: { type: Type.STRING, description: "The dubbing line in the target language." },
+        },
+        required: ["start", "end", "speakerId", "sourceText", "translatedText"],
+        propertyOrdering: ["start", "end", "speakerId", "sourceText", "translatedText"],
+      },
+    },
+  },
+  required: ["sourceLanguage", "speakers", "segments"],
+  propertyOrdering: ["sourceLanguage", "speakers", "segments"],
+};
+
+/**
+ * Parses model output that should be a JSON list. Anything else throws `message`,
+ * which is not retried: the same prompt would most likely fail the same way.
+ */
+const parseJsonList = (raw: string, message: string): unknown[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error(message);
+  }
+  if (!Array.isArray(data)) throw new Error(message);
+  return data;
+};
+
+/**
+ * Validates the model output against the analysis schema and normalises the
+ * segments into a sorted, non-overlapping list.
+ */
+export const parseVideoAnalysis = (raw: string): VideoAnalysis => {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error("Invalid segment JSON / 分段数据格式错误");
+  }
+  if (!isRecord(data) || !Array.isArray(data.segments)) {
+    throw new Error("Segment list expected / 应返回分段列表");
+  }
+
+  const segments = data.segments.map((item: unknown, index: number): TranscriptSegment => {
+    const entry = isRecord(item) ? item : {};
+    const start = Number(entry.start);
+    const end = Number(entry.end);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start) {
+      throw new Error(`Invalid timing in segment ${index + 1} / 第 ${index + 1} 段时间无效`);
+    }
+    if (typeof entry.translatedText !== 'string' || !entry.translatedText.trim()) {
+      throw new Error(`Missing translation in segment ${index + 1} / 第 ${index + 1} 段缺少译文`);
+    }
+    return {
+      id: '',
+      start,
+      end,
+      sourceText: typeof entry.sourceText === 'string' ? entry.sourceText.trim() : '',
+      translatedText: entry.translatedText.trim(),
+      speakerId: typeof entry.speakerId === 'string' && entry.speakerId.trim() ? entry.speakerId.trim() : undefined,
+    };
+  });
+
+  segments.sort((a, b) => a.start - b.start);
+  segments.forEach((segment, index) => { segment.id = `seg-${index}`; });
+  // Clip overlaps so every line owns its own slot on the timeline
+  for (let i = 0; i < segments.length - 1; i++) {
+    if (segments[i].end > segments[i + 1].start) {
+      segments[i].end = Math.max(segments[i].start + 0.01, segments[i + 1].start);
+    }
+  }
+
+  const speakers = new Map<string, Speaker>();
+  for (const entry of Array.isArray(data.speakers) ? data.speakers : []) {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || !entry.id.trim()) continue;
+    speakers.set(entry.id.trim(), {
+      id: entry.id.trim(),
+      gender: SPEAKER_GENDERS.find(gender => gender === entry.gender) ?? 'unknown',
+      age: SPEAKER_AGES.find(age => age === entry.age) ?? 'unknown',
+    });
+  }
+  // Segments may reference a speaker the model forgot to list
+  for (const segment of segments) {
+    if (segment.speakerId && !speakers.has(segment.speakerId)) {
+      speakers.set(segment.speakerId, { id: segment.speakerId, gender: 'unknown', age: 'unknown' });
+    }
+  }
+
+  const sourceLanguage = typeof data.sourceLanguage === 'string' && data.sourceLanguage.trim()
+    ? data.sourceLanguage.trim()
+    : undefined;
+  return { segments, speakers: [...speakers.values()], sourceLanguage };
+};
+
+const describeGlossary = (glossary: GlossaryEntry[] = [], targetLanguage: string): string => {
+  const terms = getGlossaryTerms(glossary, targetLanguage);
+  if (terms.length === 0) return '';
+  const lines = [`Follow this glossary exactly wherever a term occurs:`];
+  terms.forEach(term => lines.push(term.doNotTranslate
+    ? `- "${term.source}": keep as is, do not translate`
+    : `- "${term.source}" -> "${term.target}"`));
+  return lines.map(line => `    ${line}`).join('\n');
+};
+
+const FORMALITY_PROMPTS = {
+  informal: "Use the informal register and informal forms of address (for example \"você\" rather than \"o senhor\", \"tú\" rather than \"usted\").",
+  formal: "Use the formal register and polite forms of address (for example \"o senhor\" rather than \"você\", \"usted\" rather than \"tú\").",
+};
+
+const AUDIENCE_PROMPTS = {
+  children: "The audience is children; use simple words they understand.",
+  teens: "The audience is teenagers.",
+  professionals: "The audience is professionals; keep domain terminology precise.",
+};
+
+const describeStyle = (style?: TranslationStyle): string => {
+  if (!style) return '';
+  const lines: string[] = [];
+  if (style.formality !== 'auto') lines.push(FORMALITY_PROMPTS[style.formality]);
+  if (style.tone !== 'neutral') lines.push(`Use a ${style.tone} tone.`);
+  if (style.audience !== 'general') lines.push(AUDIENCE_PROMPTS[style.audience]);
+  if (style.instructions.trim()) lines.push(`Additional instructions: ${style.instructions.trim()}`);
+  return lines.map(line => `    ${line}`).join('\n');
+};
+
+const describeChunk = (chunk: ChunkContext): string => {
+  const lines = [
+    `This is part ${chunk.index + 1} of ${chunk.count} of a longer recording.`,
+    `Report times relative to the start of this part.`,
+  ];
+  if (chunk.overlap > 0) {
+    lines.push(`Its first ${chunk.overlap.toFixed(1)} seconds repeat the end of the previous part; do not return lines that end within them.`);
+  }
+  if (chunk.speakers.length > 0) {
+    lines.push(`Speakers identified so far: ${chunk.speakers.map(s => `${s.id} (${s.gender}, ${s.age})`).join(', ')}. Reuse these ids for the same voices.`);
+  }
+  if (chunk.previousLines.length > 0) {
+    lines.push(`The previous part ended with these lines; keep names, terms and tone consistent with them:`);
+    chunk.previousLines.forEach(line => lines.push(`- "${line.sourceText}" -> "${line.translatedText}"`));
+  }
+  return lines.map(line => `    ${line}`).join('\n');
+};
+
+/**
+ * Transcribes and translates in one pass. With `chunk` set, only that time
+ * range of the media is analyzed and an empty result is allowed.
+ */
+const translateVideoContent = async (
+  media: MediaInput,
+  targetLanguage: string,
+  { model, signal, chunk, glossary, style }: TranscribeOptions
+): Promise<VideoAnalysis> => {
+  const languageName = getLanguage(targetLanguage).promptName;
+  const isVideo = media.mimeType.startsWith('video/');
   
   const prompt = `
-    Analyze the audio in this video file. 
-    The audio might be in English or Spanish.
+    Analyze the audio in this ${isVideo ? 'video' : 'audio'} file. 
+    Detect which language is spoken and report it as a BCP-47 code.${isVideo ? `
+    Use what is shown on screen to resolve ambiguous words, names and references.` : ''}
     Your task is to:
-    1. Listen to the speech.
-    2. Translate the spoken content into ${languageName}.
-    3. Return ONLY the translated text as a continuous script suitable for dubbing.
-    Do not include speaker labels, timestamps, or markdown formatting like ** or *. Just the raw text to be spoken.
+    1. Listen to the speech and split it into short lines at natural sentence or phrase boundaries.
+    2. For every line, record when it starts and ends in the recording, in seconds.
+    3. Identify who is speaking. List each distinct speaker once with an id (S1, S2, ...),
+       their apparent gender and age group, and tag every line with its speaker id.
+    4. Transcribe what was said in the original language.
+    5. Translate the line into ${languageName} so it can be spoken as a dub in the same time slot.
+    Do not include speaker labels or markdown formatting like ** or * in the text fields.
+${describeStyle(style)}
+${describeGlossary(glossary, targetLanguage)}
+${chunk ? describeChunk(chunk) : ''}
   `;
 
+  const mediaPart = media.kind === 'inline'
+    ? { inlineData: { mimeType: media.mimeType, data: media.data } }
+    : { fileData: { mimeType: media.mimeType, fileUri: media.uri } };
+  // Audio chunks are cut client side; a video is uploaded once and clipped per chunk
+  const videoMetadata = isVideo && chunk
+    ? { startOffset: `${(chunk.start - chunk.overlap).toFixed(2)}s`, endOffset: `${chunk.end.toFixed(2)}s` }
+    : undefined;
+
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+    const response = await generateContent({
+      model,
       contents: {
         parts: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Video,
-            },
-          },
+          { ...mediaPart, videoMetadata },
           {
             text: prompt,
           },
         ],
       },
-    });
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: analysisSchema,
+      },
+    }, signal);
 
     const text = response.text;
     if (!text) throw new Error("Translation failed / 翻译失败");
-    return text;
+
+    const analysis = parseVideoAnalysis(text);
+    if (analysis.segments.length === 0 && !chunk) throw new Error("No speech detected / 未检测到语音");
+    return analysis;
 
   } catch (error) {
     console.error("Translation Error:", error);
@@ -59,57 +494,260 @@ export const translateVideoContent = async (
   }
 };
 
+const translationSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      translatedText: { type: Type.STRING },
+    },
+    required: ["id", "translatedText"],
+    propertyOrdering: ["id", "translatedText"],
+  },
+};
+
+const readTranslations = (text: string): Map<string, string> => {
+  const translations = new Map<string, string>();
+  for (const entry of parseJsonList(text, "Invalid translation JSON / 翻译结果格式错误")) {
+    if (isRecord(entry) && typeof entry.id === 'string' && typeof entry.translatedText === 'string') {
+      translations.set(entry.id, entry.translatedText.trim());
+    }
+  }
+  return translations;
+};
+
+const roundSeconds = (seconds: number) => Math.round(seconds * 10) / 10;
+
 /**
- * Step 2: Generate Speech from Text
+ * Translates already-analysed segments into another language.
+ * Text only, so the video does not have to be uploaded again per language.
  */
-export const generateSpeech = async (
-  text: string,
-  voiceName: string = 'Kore'
-): Promise<string> => {
-  const ai = getAiClient();
+const translateSegments = async (
+  segments: TranscriptSegment[],
+  targetLanguage: string,
+  { model, signal, glossary, style, budgets }: TranslateOptions
+): Promise<TranscriptSegment[]> => {
+  const languageName = getLanguage(targetLanguage).promptName;
+  const lines = segments.map(s => ({
+    id: s.id,
+    text: s.sourceText || s.translatedText,
+    maxSeconds: budgets?.[s.id] ? roundSeconds(budgets[s.id].maxSeconds) : undefined,
+  }));
+
+  const prompt = `
+    Translate each of the following dubbing lines into ${languageName}.
+    Keep every line separate and return it with its original id.
+    Each translation will be spoken in the same time slot as the original line, so keep a similar length.${budgets ? `
+    maxSeconds is how long a line may take to speak at a natural pace; shorten or rephrase to stay within it.` : ''}
+    Do not add markdown formatting like ** or *.
+${describeStyle(style)}
+${describeGlossary(glossary, targetLanguage)}
+
+    ${JSON.stringify(lines)}
+  `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
+    const response = await generateContent({
+      model,
+      contents: prompt,
       config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voiceName },
-          },
-        },
+        responseMimeType: "application/json",
+        responseSchema: translationSchema,
       },
-    });
-
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    
-    if (!base64Audio) {
-      throw new Error("No audio returned / 未返回音频数据");
-    }
+    }, signal);
 
-    // Decode and convert to WAV URL
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    const audioBytes = decodeBase64(base64Audio);
-    const audioBuffer = await decodeAudioData(audioBytes, audioContext);
-    const wavUrl = audioBufferToWavUrl(audioBuffer);
-    
-    await audioContext.close();
+    const text = response.text;
+    if (!text) throw new Error("Translation failed / 翻译失败");
 
-    return wavUrl;
+    const translations = readTranslations(text);
+    return segments.map(segment => {
+      const translatedText = translations.get(segment.id);
+      if (!translatedText) {
+        throw new Error(`Missing translation for ${segment.id} / 缺少译文`);
+      }
+      return {
+        id: segment.id,
+        start: segment.start,
+        end: segment.end,
+        sourceText: segment.sourceText,
+        translatedText,
+        speakerId: segment.speakerId,
+      };
+    });
 
   } catch (error) {
-    console.error("TTS Error:", error);
+    console.error("Translation Error:", error);
     throw error;
   }
 };
 
 /**
- * Preview a specific voice model
+ * Asks for shorter versions of translated lines that take too long to speak.
+ * Lines the model leaves out keep their current translation.
+ */
+const rephraseSegments = async (
+  segments: TranscriptSegment[],
+  targetLanguage: string,
+  { model, signal, glossary, style, budgets = {} }: TranslateOptions
+): Promise<TranscriptSegment[]> => {
+  const languageName = getLanguage(targetLanguage).promptName;
+  const lines = segments.map(s => ({
+    id: s.id,
+    source: s.sourceText,
+    translation: s.translatedText,
+    currentSeconds: budgets[s.id]?.currentSeconds !== undefined ? roundSeconds(budgets[s.id].currentSeconds!) : undefined,
+    maxSeconds: budgets[s.id] ? roundSeconds(budgets[s.id].maxSeconds) : undefined,
+  }));
+
+  const prompt = `
+    These ${languageName} dubbing lines take too long to speak in their time slot.
+    Rewrite each translation so it can be spoken within maxSeconds at a natural pace.
+    Keep the meaning, names and numbers; drop filler words and simplify phrasing first.
+    Return every line with its original id. Do not add markdown formatting like ** or *.
+${describeStyle(style)}
+${describeGlossary(glossary, targetLanguage)}
+
+    ${JSON.stringify(lines)}
+  `;
+
+  const response = await generateContent({
+    model,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: translationSchema,
+    },
+  }, signal);
+
+  const text = response.text;
+  if (!text) throw new Error("Rephrasing failed / 改写失败");
+
+  const translations = readTranslations(text);
+  return segments.map(segment => ({ ...segment, translatedText: translations.get(segment.id) || segment.translatedText }));
+};
+
+// Numbers and units fall under mistranslation; length is checked locally
+const REVIEW_ISSUE_TYPES: QaIssueType[] = ['omission', 'mistranslation', 'untranslated', 'profanity'];
+
+const reviewSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING, description: "Id of the line with the problem." },
+      type: { type: Type.STRING, enum: REVIEW_ISSUE_TYPES },
+      message: { type: Type.STRING, description: "Short explanation for the reviewer, in English." },
+    },
+    required: ["id", "type", "message"],
+    propertyOrdering: ["id", "type", "message"],
+  },
+};
+
+/**
+ * Asks the model to compare every translated line with its source
+ */
+const reviewTranslation = async (
+  segments: TranscriptSegment[],
+  targetLanguage: string,
+  { model, signal }: CallOptions
+): Promise<Record<string, QaIssue[]>> => {
+  const languageName = getLanguage(targetLanguage).promptName;
+  const lines = segments
+    .filter(s => s.sourceText)
+    .map(s => ({ id: s.id, source: s.sourceText, translation: s.translatedText }));
+  if (lines.length === 0) return {};
+
+  const prompt = `
+    Review these dubbing lines, translated into ${languageName}, against their source text.
+    Report only real problems, at most one of each type per line:
+    - omission: meaning from the source is missing in the translation
+    - mistranslation: the meaning is wrong, including wrong numbers, dates or units
+    - untranslated: source-language words were left untranslated (names and brands are fine)
+    - profanity: the translation contains offensive or vulgar words
+    Return an empty list when every line is fine.
+
+    ${JSON.stringify(lines)}
+  `;
+
+  const response = await generateContent({
+    model,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: reviewSchema,
+    },
+  }, signal);
+
+  const text = response.text;
+  if (!text) throw new Error("Review failed / 质检失败");
+
+  const ids = new Set(lines.map(line => line.id));
+  const issues: Record<string, QaIssue[]> = {};
+  for (const entry of parseJsonList(text, "Invalid review JSON / 质检结果格式错误")) {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || !ids.has(entry.id)) continue;
+    const type = REVIEW_ISSUE_TYPES.find(issueType => issueType === entry.type);
+    if (!type) continue;
+    const message = typeof entry.message === 'string' ? entry.message.trim() : '';
+    issues[entry.id] = [...(issues[entry.id] ?? []), { type, message }];
+  }
+  return issues;
+};
+
+const TTS_SAMPLE_RATE = 24000;
+
+/**
+ * Calls the TTS model, which answers with raw 24 kHz 16-bit PCM
  */
-export const previewVoiceModel = async (
+const synthesizeSpeech = async (
   text: string,
-  voiceName: string
-): Promise<string> => {
-  return generateSpeech(text, voiceName);
-};
\ No newline at end of file
+  voiceName: string,
+  { model, signal }: CallOptions
+): Promise<AudioBuffer> => {
+  const response = await generateContent({
+    model,
+    contents: [{ parts: [{ text: text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: voiceName },
+        },
+      },
+    },
+  }, signal);
+
+  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  
+  if (!base64Audio) {
+    throw new Error("No audio returned / 未返回音频数据");
+  }
+  return decodeAudioData(decodeBase64(base64Audio), new OfflineAudioContext(1, 1, TTS_SAMPLE_RATE), TTS_SAMPLE_RATE);
+};
+
+export const geminiProvider: DubbingProvider = {
+  id: 'gemini',
+  displayName: 'Google Gemini',
+  // The proxy holds the key; the browser only needs one in direct mode
+  requiresApiKey: !useProxy,
+  models: {
+    transcription: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+    translation: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+    speech: ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'],
+  },
+  transcriber: {
+    prepareMedia: prepareMediaInput,
+    releaseMedia: media => releaseMediaInput(media as MediaInput),
+    transcribe: (media, targetLanguage, options) => translateVideoContent(media as MediaInput, targetLanguage, options),
+  },
+  translator: {
+    translate: translateSegments,
+    rephrase: rephraseSegments,
+  },
+  reviewer: {
+    review: reviewTranslation,
+  },
+  synthesizer: {
+    synthesize: synthesizeSpeech,
+  },
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { mockProvider, mockShorten, mockTranslate, synthesizeTone } from './mockProvider';
+import { estimateSpeechSeconds } from '../utils/translationQa';
+
+describe('mockProvider', () => {
+  it('returns the same canned transcript on every call', async () => {
+    const media = await mockProvider.transcriber.prepareMedia(new File(['x'], 'clip.mp4', { type: 'video/mp4' }), () => {});
+    const first = await mockProvider.transcriber.transcribe(media, 'ja-JP', { model: 'mock-transcriber' });
+    const second = await mockProvider.transcriber.transcribe(media, 'ja-JP', { model: 'mock-transcriber' });
+
+    expect(first).toEqual(second);
+    expect(first.segments.length).toBeGreaterThan(0);
+    expect(first.segments[0].translatedText).toBe(mockTranslate(first.segments[0].sourceText, 'ja-JP'));
+    expect(first.speakers.map(s => s.id)).toEqual(['S1', 'S2']);
+  });
+
+  it('only returns lines that fit into a short chunk', async () => {
+    const media = await mockProvider.transcriber.prepareMedia(new File(['x'], 'clip.wav', { type: 'audio/wav' }), () => {});
+    const analysis = await mockProvider.transcriber.transcribe(media, 'de-DE', {
+      model: 'mock-transcriber',
+      chunk: { index: 1, count: 2, start: 10, end: 13, overlap: 0, speakers: [], previousLines: [] },
+    });
+    expect(analysis.segments.every(s => s.end <= 3)).toBe(true);
+  });
+
+  it('translates while keeping ids and timing', async () => {
+    const segments = [{ id: 'seg-0', start: 1, end: 2, sourceText: 'Hi', translatedText: '' }];
+    const translated = await mockProvider.translator.translate(segments, 'fr-FR', { model: 'mock-translator' });
+    expect(translated).toEqual([{ ...segments[0], translatedText: '[fr-FR] Hi' }]);
+  });
+
+  it('shortens lines that exceed their speaking budget', async () => {
+    const text = 'This sentence is much too long to be spoken in one second';
+    expect(estimateSpeechSeconds(mockShorten(text, 1))).toBeLessThanOrEqual(1);
+    expect(mockShorten('Hi there', 5)).toBe('Hi there');
+
+    const segments = [
+      { id: 'seg-0', start: 0, end: 1, sourceText: '', translatedText: text },
+      { id: 'seg-1', start: 1, end: 2, sourceText: '', translatedText: 'Kept' },
+    ];
+    const rephrased = await mockProvider.translator.rephrase!(segments, 'en-US', { model: 'mock-translator', budgets: { 'seg-0': { maxSeconds: 1 } } });
+    expect(rephrased[0].translatedText).toBe(mockShorten(text, 1));
+    expect(rephrased[1]).toEqual(segments[1]);
+  });
+});
+
+describe('synthesizeTone', () => {
+  it('renders deterministic 16-bit PCM whose length follows the text', () => {
+    const short = new Int16Array(synthesizeTone('Hi', 'Kore', 24000).buffer);
+    const long = new Int16Array(synthesizeTone('A much longer line of dialogue', 'Kore', 24000).buffer);
+
+    expect(short.length).toBe(Math.round(0.3 * 24000));
+    expect(long.length).toBeGreaterThan(short.length);
+    expect(synthesizeTone('Hi', 'Kore')).toEqual(synthesizeTone('Hi', 'Kore'));
+    expect(Math.max(...Array.from(short, Math.abs))).toBeLessThanOrEqual(32767);
+  });
+
+  it('gives voices different pitches', () => {
+    expect(synthesizeTone('Hello there', 'Kore')).not.toEqual(synthesizeTone('Hello there', 'Puck'));
+  });
+});
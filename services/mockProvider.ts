@@ -0,0 +1,123 @@
+import { TranscriptSegment, VideoAnalysis } from '../types';
+import { decodeAudioData } from '../utils/audioUtils';
+import { sleep } from '../utils/rateLimit';
+import { estimateSpeechSeconds } from '../utils/translationQa';
+import { DubbingProvider, PreparedMedia } from './providers';
+
+const MOCK_SAMPLE_RATE = 24000;
+// Short pause so progress and cancellation can be seen and tested
+const MOCK_LATENCY_MS = 150;
+
+interface MockMedia extends PreparedMedia {
+  size: number;
+}
+
+// Canned transcript, relative to the start of the media (or chunk)
+const MOCK_LINES: Omit<TranscriptSegment, 'id' | 'translatedText'>[] = [
+  { start: 0.5, end: 2.5, sourceText: "Hello and welcome to the show.", speakerId: 'S1' },
+  { start: 3.0, end: 5.0, sourceText: "Thanks, it is great to be here.", speakerId: 'S2' },
+  { start: 5.5, end: 8.0, sourceText: "Let's get started right away.", speakerId: 'S1' },
+];
+
+/**
+ * Stands in for a translation: tags the text with the target language
+ */
+export const mockTranslate = (text: string, targetLanguage: string): string => `[${targetLanguage}] ${text}`;
+
+/**
+ * Stands in for rephrasing: drops words from the end until the line fits
+ */
+export const mockShorten = (text: string, maxSeconds: number): string => {
+  const words = text.split(/\s+/).filter(Boolean);
+  while (words.length > 1 && estimateSpeechSeconds(words.join(' ')) > maxSeconds) words.pop();
+  return words.join(' ');
+};
+
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  return Math.abs(hash);
+};
+
+/**
+ * Renders a text as a sine tone: its length follows the text length and its
+ * pitch the voice, so different speakers stay audibly apart. Returns 16-bit
+ * PCM bytes, the same shape a real TTS model answers with.
+ */
+export const synthesizeTone = (text: string, voiceName: string, sampleRate: number = MOCK_SAMPLE_RATE): Uint8Array => {
+  const seconds = Math.min(4, Math.max(0.3, text.length * 0.06));
+  const frequency = 220 + (hashString(voiceName) % 8) * 40;
+  const samples = new Int16Array(Math.round(seconds * sampleRate));
+  const fade = Math.min(samples.length / 2, sampleRate * 0.02);
+  for (let i = 0; i < samples.length; i++) {
+    const envelope = Math.min(1, i / fade, (samples.length - 1 - i) / fade);
+    samples[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * envelope * 0.3 * 32767);
+  }
+  return new Uint8Array(samples.buffer);
+};
+
+/**
+ * Offline provider with canned transcripts and tone audio, for development and
+ * tests without network access or an API key
+ */
+export const mockProvider: DubbingProvider = {
+  id: 'mock',
+  displayName: '离线模拟 (Mock, offline)',
+  requiresApiKey: false,
+  models: {
+    transcription: ['mock-transcriber'],
+    translation: ['mock-translator'],
+    speech: ['mock-tone'],
+  },
+  transcriber: {
+    prepareMedia: async (file, onProgress, signal) => {
+      await sleep(MOCK_LATENCY_MS, signal);
+      onProgress(1);
+      const media: MockMedia = { mimeType: file.type, size: file.size };
+      return media;
+    },
+    releaseMedia: async () => {},
+    transcribe: async (_media, targetLanguage, { signal, chunk }): Promise<VideoAnalysis> => {
+      await sleep(MOCK_LATENCY_MS, signal);
+      // Chunks only get the lines that fit into their time range
+      const length = chunk ? chunk.end - chunk.start + chunk.overlap : Infinity;
+      const segments = MOCK_LINES
+        .filter(line => line.end <= length)
+        .map((line, index) => ({
+          ...line,
+          id: `seg-${index}`,
+          translatedText: mockTranslate(line.sourceText, targetLanguage),
+        }));
+      return {
+        segments,
+        sourceLanguage: 'en',
+        speakers: [
+          { id: 'S1', gender: 'female', age: 'adult' },
+          { id: 'S2', gender: 'male', age: 'adult' },
+        ],
+      };
+    },
+  },
+  translator: {
+    translate: async (segments, targetLanguage, { signal }) => {
+      await sleep(MOCK_LATENCY_MS, signal);
+      return segments.map(segment => ({
+        ...segment,
+        translatedText: mockTranslate(segment.sourceText || segment.translatedText, targetLanguage),
+      }));
+    },
+    rephrase: async (segments, _targetLanguage, { signal, budgets = {} }) => {
+      await sleep(MOCK_LATENCY_MS, signal);
+      return segments.map(segment => budgets[segment.id]
+        ? { ...segment, translatedText: mockShorten(segment.translatedText, budgets[segment.id].maxSeconds) }
+        : segment);
+    },
+  },
+  synthesizer: {
+    synthesize: async (text, voiceName, { signal }) => {
+      await sleep(MOCK_LATENCY_MS, signal);
+      const ctx = new OfflineAudioContext(1, 1, MOCK_SAMPLE_RATE);
+      return decodeAudioData(synthesizeTone(text, voiceName), ctx, MOCK_SAMPLE_RATE);
+    },
+  },
+};
@@ -0,0 +1,263 @@
+import { BatchItem, DubbingConfig, ItemStatus, ProcessedResult, Project, ProjectSummary, TranscriptSegment } from '../types';
+
+const DB_NAME = 'gemini-video-dubber';
+const DB_VERSION = 2;
+const PROJECT_STORE = 'projects';
+const FILE_STORE = 'sourceFiles'; // Source videos, written once per item, keyed "<projectId>/<itemId>"
+// Generated audio, keyed "<projectId>/<itemId>/<language>" for a track and ".../<segmentId>" for a clip
+const AUDIO_STORE = 'audio';
+
+// Blob URLs do not survive a reload; their Blobs live in AUDIO_STORE.
+// Projects saved before that store existed still hold them inline.
+interface StoredSegment extends Omit<TranscriptSegment, 'audioUrl'> {
+  audioBlob?: Blob;
+}
+
+interface StoredResult extends Omit<ProcessedResult, 'audioUrl' | 'segments'> {
+  audioBlob?: Blob;
+  segments?: StoredSegment[];
+}
+
+interface StoredItem extends Omit<BatchItem, 'file' | 'videoUrl' | 'results'> {
+  fileName: string;
+  results?: Record<string, StoredResult>;
+}
+
+interface StoredProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  config: DubbingConfig;
+  items: StoredItem[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(FILE_STORE)) db.createObjectStore(FILE_STORE);
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) db.createObjectStore(AUDIO_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted / 事务已中止"));
+  });
+
+const fileKey = (projectId: string, itemId: string) => `${projectId}/${itemId}`;
+const projectRange = (projectId: string) => IDBKeyRange.bound(`${projectId}/`, `${projectId}/\uffff`);
+
+const trackKey = (projectId: string, itemId: string, language: string) => `${projectId}/${itemId}/${language}`;
+const clipKey = (track: string, segmentId: string) => `${track}/${segmentId}`;
+
+// The Object URL whose audio is stored under each key, so unchanged audio is not written again
+const storedAudioUrls = new Map<string, string>();
+
+const forgetProjectAudio = (projectId: string) => {
+  for (const key of Array.from(storedAudioUrls.keys())) {
+    if (key.startsWith(`${projectId}/`)) storedAudioUrls.delete(key);
+  }
+};
+
+const projectAudioUrls = (project: Project): Map<string, string> => {
+  const urls = new Map<string, string>();
+  for (const item of project.items) {
+    for (const [language, result] of Object.entries<ProcessedResult>(item.results ?? {})) {
+      const key = trackKey(project.id, item.id, language);
+      if (result.audioUrl) urls.set(key, result.audioUrl);
+      result.segments?.forEach(segment => {
+        if (segment.audioUrl) urls.set(clipKey(key, segment.id), segment.audioUrl);
+      });
+    }
+  }
+  return urls;
+};
+
+/**
+ * Reads the audio behind Object URLs. A URL revoked by an edit in the meantime
+ * is skipped; the save that edit triggers stores its replacement.
+ */
+const readAudioBlobs = async (urls: [string, string][]): Promise<[string, Blob][]> => {
+  const blobs = await Promise.all(urls.map(async ([key, url]): Promise<[string, Blob] | null> => {
+    try {
+      return [key, await (await fetch(url)).blob()];
+    } catch {
+      return null;
+    }
+  }));
+  return blobs.filter((entry): entry is [string, Blob] => entry !== null);
+};
+
+const toStoredResult = (result: ProcessedResult): StoredResult => {
+  const { audioUrl, segments, ...rest } = result;
+  return { ...rest, segments: segments?.map(({ audioUrl: clipUrl, ...segment }) => segment) };
+};
+
+// `restore` makes an Object URL for the audio stored under a key, if any
+type RestoreAudio = (key: string, legacyBlob?: Blob) => string | undefined;
+
+const fromStoredResult = (stored: StoredResult, key: string, restore: RestoreAudio): ProcessedResult => {
+  const { audioBlob, segments, ...rest } = stored;
+  return {
+    ...rest,
+    audioUrl: restore(key, audioBlob),
+    segments: segments?.map(({ audioBlob: clipBlob, ...segment }) => ({
+      ...segment,
+      audioUrl: restore(clipKey(key, segment.id), clipBlob),
+    })),
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const projects = await promisify<StoredProject[]>(
+    db.transaction(PROJECT_STORE, 'readonly').objectStore(PROJECT_STORE).getAll()
+  );
+  return projects
+    .map(p => ({ id: p.id, name: p.name, updatedAt: p.updatedAt, itemCount: p.items.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Saves the project along with the generated audio and source files not stored yet
+ */
+export const saveProject = async (project: Project): Promise<void> => {
+  const items: StoredItem[] = project.items.map(item => {
+    const { file, videoUrl, results, ...rest } = item;
+    const storedResults: Record<string, StoredResult> = {};
+    for (const [language, result] of Object.entries<ProcessedResult>(results ?? {})) {
+      storedResults[language] = toStoredResult(result);
+    }
+    return { ...rest, fileName: file.name, results: storedResults };
+  });
+
+  // Read new audio before opening the transaction: IndexedDB transactions
+  // auto-commit as soon as they are left idle across an await.
+  const audioUrls = projectAudioUrls(project);
+  const newAudio = await readAudioBlobs(Array.from(audioUrls).filter(([key, url]) => storedAudioUrls.get(key) !== url));
+
+  const db = await openDb();
+  const readTx = db.transaction([FILE_STORE, AUDIO_STORE], 'readonly');
+  const [existingKeys, existingAudioKeys] = await Promise.all([
+    promisify(readTx.objectStore(FILE_STORE).getAllKeys(projectRange(project.id))),
+    promisify(readTx.objectStore(AUDIO_STORE).getAllKeys(projectRange(project.id))),
+  ]);
+
+  const tx = db.transaction([PROJECT_STORE, FILE_STORE, AUDIO_STORE], 'readwrite');
+  const fileStore = tx.objectStore(FILE_STORE);
+  const audioStore = tx.objectStore(AUDIO_STORE);
+  const wantedKeys = new Set(project.items.map(item => fileKey(project.id, item.id)));
+
+  for (const item of project.items) {
+    const key = fileKey(project.id, item.id);
+    if (!existingKeys.includes(key)) fileStore.put(item.file, key);
+  }
+  for (const key of existingKeys) {
+    if (!wantedKeys.has(key as string)) fileStore.delete(key);
+  }
+  for (const [key, blob] of newAudio) audioStore.put(blob, key);
+  for (const key of existingAudioKeys) {
+    if (!audioUrls.has(key as string)) audioStore.delete(key);
+  }
+
+  const stored: StoredProject = {
+    id: project.id,
+    name: project.name,
+    createdAt: project.createdAt,
+    updatedAt: Date.now(),
+    config: project.config,
+    items,
+  };
+  tx.objectStore(PROJECT_STORE).put(stored);
+
+  await transactionDone(tx);
+  const written = new Set(newAudio.map(([key]) => key));
+  const kept = Array.from(audioUrls).filter(([key, url]) => written.has(key) || storedAudioUrls.get(key) === url);
+  forgetProjectAudio(project.id);
+  kept.forEach(([key, url]) => storedAudioUrls.set(key, url));
+};
+
+/**
+ * Loads a project and recreates Object URLs for its source files and audio
+ */
+export const loadProject = async (id: string): Promise<Project> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECT_STORE, FILE_STORE, AUDIO_STORE], 'readonly');
+  const stored = await promisify<StoredProject | undefined>(tx.objectStore(PROJECT_STORE).get(id));
+  if (!stored) throw new Error("Project not found / 项目不存在");
+
+  const fileStore = tx.objectStore(FILE_STORE);
+  const audioStore = tx.objectStore(AUDIO_STORE);
+  const [files, audioKeys, audioBlobs] = await Promise.all([
+    Promise.all(stored.items.map(item => promisify<File | undefined>(fileStore.get(fileKey(id, item.id))))),
+    promisify(audioStore.getAllKeys(projectRange(id))),
+    promisify<Blob[]>(audioStore.getAll(projectRange(id))),
+  ]);
+  const audio = new Map(audioKeys.map((key, index) => [key as string, audioBlobs[index]]));
+
+  forgetProjectAudio(id);
+  const restore: RestoreAudio = (key, legacyBlob) => {
+    const blob = audio.get(key);
+    if (!blob) return legacyBlob && URL.createObjectURL(legacyBlob);
+    const url = URL.createObjectURL(blob);
+    storedAudioUrls.set(key, url);
+    return url;
+  };
+
+  const items: BatchItem[] = [];
+  stored.items.forEach((storedItem, index) => {
+    const file = files[index];
+    if (!file) return; // Source video missing, nothing to show
+
+    const { fileName, results, ...rest } = storedItem;
+    const restoredResults: Record<string, ProcessedResult> = {};
+    for (const [language, result] of Object.entries<StoredResult>(results ?? {})) {
+      restoredResults[language] = fromStoredResult(result, trackKey(id, storedItem.id, language), restore);
+    }
+
+    // Work interrupted by the reload has to be started again
+    const interrupted = ![ItemStatus.COMPLETED, ItemStatus.ERROR, ItemStatus.CANCELLED].includes(rest.status);
+    items.push({
+      ...rest,
+      status: interrupted ? ItemStatus.PENDING : rest.status,
+      file: file instanceof File ? file : new File([file], fileName),
+      videoUrl: URL.createObjectURL(file),
+      results: restoredResults,
+    });
+  });
+
+  return { id: stored.id, name: stored.name, createdAt: stored.createdAt, config: stored.config, items };
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECT_STORE, FILE_STORE, AUDIO_STORE], 'readwrite');
+  tx.objectStore(PROJECT_STORE).delete(id);
+  tx.objectStore(FILE_STORE).delete(projectRange(id));
+  tx.objectStore(AUDIO_STORE).delete(projectRange(id));
+  await transactionDone(tx);
+  forgetProjectAudio(id);
+};
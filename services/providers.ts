@@ -0,0 +1,94 @@
+import { GlossaryEntry, QaIssue, Speaker, TranscriptSegment, TranslationStyle, VideoAnalysis } from '../types';
+
+/**
+ * A file made available to a provider: read inline, uploaded, or simply kept
+ * in memory. Providers extend it with whatever they need to reference it.
+ */
+export interface PreparedMedia {
+  mimeType: string;
+}
+
+/**
+ * Where a chunk sits in a longer recording, and what came before it
+ */
+export interface ChunkContext {
+  index: number;
+  count: number;
+  start: number; // Seconds into the full recording
+  end: number;
+  overlap: number; // Seconds at the start already covered by the previous chunk
+  speakers: Speaker[];
+  previousLines: TranscriptSegment[];
+}
+
+export interface CallOptions {
+  model: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * How long a line may take to speak, so the dub fits the original timing
+ */
+export interface SpeakingBudget {
+  maxSeconds: number;
+  currentSeconds?: number; // Length of the current translation, when rephrasing
+}
+
+export interface TranslateOptions extends CallOptions {
+  // Required renderings and do-not-translate terms
+  glossary?: GlossaryEntry[];
+  style?: TranslationStyle;
+  budgets?: Record<string, SpeakingBudget>; // Keyed by segment id
+}
+
+export interface TranscribeOptions extends TranslateOptions {
+  // Set when only part of a longer recording is analyzed; an empty result is allowed then
+  chunk?: ChunkContext;
+}
+
+/**
+ * Turns speech into timed lines with speakers. Providers that translate in the
+ * same pass fill `translatedText`; otherwise it is left empty for a Translator.
+ */
+export interface Transcriber {
+  prepareMedia: (file: File, onProgress: (fraction: number) => void, signal?: AbortSignal) => Promise<PreparedMedia>;
+  releaseMedia: (media: PreparedMedia) => Promise<void>;
+  transcribe: (media: PreparedMedia, targetLanguage: string, options: TranscribeOptions) => Promise<VideoAnalysis>;
+}
+
+export interface Translator {
+  // Returns the segments in order, ids and timing unchanged
+  translate: (segments: TranscriptSegment[], targetLanguage: string, options: TranslateOptions) => Promise<TranscriptSegment[]>;
+  // Shortens translated lines to their budgets; without it long lines are only reported
+  rephrase?: (segments: TranscriptSegment[], targetLanguage: string, options: TranslateOptions) => Promise<TranscriptSegment[]>;
+}
+
+/**
+ * Second pass over finished translations, comparing every line with its source
+ */
+export interface TranslationReviewer {
+  // Returns findings keyed by segment id; lines without problems are left out
+  review: (segments: TranscriptSegment[], targetLanguage: string, options: CallOptions) => Promise<Record<string, QaIssue[]>>;
+}
+
+export interface SpeechSynthesizer {
+  synthesize: (text: string, voiceName: string, options: CallOptions) => Promise<AudioBuffer>;
+}
+
+export interface ProviderModels {
+  transcription: string[];
+  translation: string[];
+  speech: string[];
+}
+
+export interface DubbingProvider {
+  id: string;
+  displayName: string;
+  requiresApiKey: boolean;
+  // The first model of each list is the default
+  models: ProviderModels;
+  transcriber: Transcriber;
+  translator: Translator;
+  reviewer?: TranslationReviewer; // Without one only the local checks run
+  synthesizer: SpeechSynthesizer;
+}
@@ -0,0 +1,46 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BUILT_IN_PRESETS, deleteStylePreset, exportStylePresets, importStylePresets, listStylePresets, normalizeTranslationStyle, saveStylePreset } from './stylePresets';
+import { DEFAULT_TRANSLATION_STYLE, TranslationStyle } from '../types';
+
+const FORMAL: TranslationStyle = { formality: 'formal', tone: 'serious', audience: 'professionals', instructions: 'Say "o senhor".' };
+
+describe('style presets', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('lists the built-in presets before saved ones', () => {
+    const saved = saveStylePreset('Docs', FORMAL);
+    expect(listStylePresets()).toEqual([...BUILT_IN_PRESETS, saved]);
+  });
+
+  it('overwrites a saved preset with the same name', () => {
+    const first = saveStylePreset('Docs', DEFAULT_TRANSLATION_STYLE);
+    const second = saveStylePreset('Docs', FORMAL);
+    expect(second.id).toBe(first.id);
+    expect(listStylePresets().filter(p => !p.builtIn)).toEqual([second]);
+  });
+
+  it('deletes saved presets', () => {
+    const saved = saveStylePreset('Docs', FORMAL);
+    deleteStylePreset(saved.id);
+    expect(listStylePresets()).toEqual(BUILT_IN_PRESETS);
+  });
+
+  it('exports saved presets and imports them in another browser', () => {
+    saveStylePreset('Docs', FORMAL);
+    const file = exportStylePresets();
+    localStorage.clear();
+
+    const imported = importStylePresets(file);
+    expect(imported.map(p => [p.name, p.style])).toEqual([['Docs', FORMAL]]);
+    expect(listStylePresets()).toHaveLength(BUILT_IN_PRESETS.length + 1);
+  });
+
+  it('rejects files that are not preset exports', () => {
+    expect(() => importStylePresets('not json')).toThrow('Invalid preset file');
+    expect(() => importStylePresets('{"styles": []}')).toThrow('Preset list expected');
+  });
+
+  it('fills in defaults for unknown style values', () => {
+    expect(normalizeTranslationStyle({ formality: 'formal', tone: 'sarcastic' })).toEqual({ ...DEFAULT_TRANSLATION_STYLE, formality: 'formal' });
+  });
+});
@@ -0,0 +1,97 @@
+import { DEFAULT_TRANSLATION_STYLE, Formality, StylePreset, TranslationAudience, TranslationStyle, TranslationTone } from '../types';
+
+const STORAGE_KEY = 'gemini-video-dubber:style-presets';
+const EXPORT_VERSION = 1;
+
+export const FORMALITIES: Formality[] = ['auto', 'informal', 'formal'];
+export const TONES: TranslationTone[] = ['neutral', 'casual', 'playful', 'enthusiastic', 'professional', 'serious'];
+export const AUDIENCES: TranslationAudience[] = ['general', 'children', 'teens', 'professionals'];
+
+export const BUILT_IN_PRESETS: StylePreset[] = [
+  {
+    id: 'builtin-kids',
+    name: '儿童频道 (Kids channel)',
+    builtIn: true,
+    style: { formality: 'informal', tone: 'playful', audience: 'children', instructions: 'Use short, simple sentences and everyday words.' },
+  },
+  {
+    id: 'builtin-enterprise',
+    name: '企业教程 (Enterprise tutorial)',
+    builtIn: true,
+    style: { formality: 'formal', tone: 'professional', audience: 'professionals', instructions: '' },
+  },
+];
+
+/**
+ * Fills in defaults for missing or unknown fields, so presets from older or
+ * hand-edited files still load
+ */
+export const normalizeTranslationStyle = (raw: any): TranslationStyle => ({
+  formality: FORMALITIES.includes(raw?.formality) ? raw.formality : DEFAULT_TRANSLATION_STYLE.formality,
+  tone: TONES.includes(raw?.tone) ? raw.tone : DEFAULT_TRANSLATION_STYLE.tone,
+  audience: AUDIENCES.includes(raw?.audience) ? raw.audience : DEFAULT_TRANSLATION_STYLE.audience,
+  instructions: typeof raw?.instructions === 'string' ? raw.instructions : DEFAULT_TRANSLATION_STYLE.instructions,
+});
+
+const readSavedPresets = (): StylePreset[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(saved)
+      ? saved.map((preset: any) => ({ id: String(preset.id), name: String(preset.name), style: normalizeTranslationStyle(preset.style) }))
+      : [];
+  } catch (error) {
+    console.warn("Could not read style presets", error);
+    return [];
+  }
+};
+
+const writeSavedPresets = (presets: StylePreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+/**
+ * Built-in presets first, then the ones saved in this browser
+ */
+export const listStylePresets = (): StylePreset[] => [...BUILT_IN_PRESETS, ...readSavedPresets()];
+
+/**
+ * Saves a preset; one with the same name is overwritten
+ */
+export const saveStylePreset = (name: string, style: TranslationStyle): StylePreset => {
+  const saved = readSavedPresets();
+  const existing = saved.find(p => p.name === name);
+  const preset: StylePreset = { id: existing?.id ?? crypto.randomUUID(), name, style };
+  writeSavedPresets(existing ? saved.map(p => p.id === existing.id ? preset : p) : [...saved, preset]);
+  return preset;
+};
+
+export const deleteStylePreset = (id: string) => {
+  writeSavedPresets(readSavedPresets().filter(p => p.id !== id));
+};
+
+/**
+ * Writes the saved presets as a JSON file that team members can import
+ */
+export const exportStylePresets = (): string =>
+  JSON.stringify({
+    version: EXPORT_VERSION,
+    presets: readSavedPresets().map(({ name, style }) => ({ name, style })),
+  }, null, 2);
+
+/**
+ * Adds the presets from an exported file, replacing saved ones with the same name
+ */
+export const importStylePresets = (text: string): StylePreset[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Invalid preset file / 预设文件格式错误");
+  }
+  if (!Array.isArray(data?.presets)) {
+    throw new Error("Preset list expected / 应包含预设列表");
+  }
+  return data.presets
+    .filter((preset: any) => typeof preset?.name === 'string' && preset.name.trim())
+    .map((preset: any) => saveStylePreset(preset.name.trim(), normalizeTranslationStyle(preset.style)));
+};
@@ -7,10 +7,14 @@ export enum AppState {
 
 export enum ItemStatus {
   PENDING = 'PENDING',
+  QUEUED = 'QUEUED',
+  PAUSED = 'PAUSED',
   UPLOADING = 'UPLOADING',
   TRANSLATING = 'TRANSLATING',
+  REVIEWING = 'REVIEWING',
   GENERATING_AUDIO = 'GENERATING_AUDIO',
   COMPLETED = 'COMPLETED',
+  CANCELLED = 'CANCELLED',
   ERROR = 'ERROR'
 }
 
@@ -19,28 +23,186 @@ export interface BatchItem {
   file: File;
   videoUrl: string; // Object URL for preview
   status: ItemStatus;
-  result?: ProcessedResult;
+  results?: Record<string, ProcessedResult>; // Keyed by target language code
   error?: string;
   progress?: number;
+  importedSegments?: TranscriptSegment[]; // From an uploaded SRT/VTT; skips translation
+  subtitleFileName?: string;
+  subtitleLanguage?: string; // Language the imported subtitles are written in
+  speakers?: Speaker[];
+  speakerVoices?: Record<string, string>; // Speaker id -> voice name
 }
 
 export interface DubbingConfig {
-  targetLanguage: 'pt-BR' | 'es-419'; 
+  targetLanguages: string[]; // BCP-47 codes from the language registry
   voiceName: string;
+  concurrency: number; // Batch items processed at the same time
+  requestsPerMinute: number; // Shared by translation and TTS calls
+  analysisInput: AnalysisInput;
+  provider: string; // Id of the dubbing provider, e.g. 'gemini'
+  models: ModelSelection;
+  glossary: GlossaryEntry[];
+  style: TranslationStyle;
+  qaReview: boolean; // Check every translation before it is voiced
+  maxSpeedUp: number; // Fastest a dubbed line may be played to fit its slot, e.g. 1.15
 }
 
-export const VOICES = {
-  'pt-BR': ['Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr'],
-  'es-419': ['Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr']
-};
+export type Formality = 'auto' | 'informal' | 'formal';
+export type TranslationTone = 'neutral' | 'casual' | 'playful' | 'enthusiastic' | 'professional' | 'serious';
+export type TranslationAudience = 'general' | 'children' | 'teens' | 'professionals';
+
+/**
+ * How translations should sound, applied to every translation request
+ */
+export interface TranslationStyle {
+  formality: Formality; // Register and forms of address, e.g. "você" vs "o senhor"
+  tone: TranslationTone;
+  audience: TranslationAudience;
+  instructions: string; // Free-form, added to the prompt as written
+}
 
-export const VOICE_SAMPLES = {
-  'pt-BR': "Olá, este é um exemplo da minha voz.",
-  'es-419': "Hola, este es un ejemplo de mi voz."
+export const DEFAULT_TRANSLATION_STYLE: TranslationStyle = {
+  formality: 'auto',
+  tone: 'neutral',
+  audience: 'general',
+  instructions: ''
 };
 
+// A named style that can be reused across projects and shared as JSON
+export interface StylePreset {
+  id: string;
+  name: string;
+  style: TranslationStyle;
+  builtIn?: boolean;
+}
+
+/**
+ * A term that must be rendered the same way in every video
+ */
+export interface GlossaryEntry {
+  id: string;
+  source: string; // As it appears in the original speech
+  doNotTranslate: boolean; // Brand and character names kept verbatim
+  translations: Record<string, string>; // Language code -> required rendering
+}
+
+export interface GlossaryViolation {
+  entryId: string;
+  source: string;
+  expected: string; // What the translation should have contained
+}
+
+// Model used by the provider for each stage of the pipeline
+export interface ModelSelection {
+  transcription: string;
+  translation: string;
+  speech: string;
+}
+
+// What is sent for transcription: the extracted 16 kHz mono soundtrack, or the
+// whole video when on-screen context helps the translation
+export type AnalysisInput = 'audio' | 'video';
+
+export interface LanguageDefinition {
+  code: string; // BCP-47, e.g. 'pt-BR'
+  displayName: string; // Shown in the settings dropdown
+  promptName: string; // Used in the translation prompt, e.g. 'Brazilian Portuguese'
+  sampleSentence: string; // Spoken by voice previews
+  voices: string[];
+}
+
+/**
+ * A single timed line of speech. Times are in seconds from the start of the video.
+ */
+export interface TranscriptSegment {
+  id: string;
+  start: number;
+  end: number;
+  sourceText: string;
+  translatedText: string;
+  speakerId?: string;
+  audioUrl?: string; // Synthesized clip for this line; cleared when the text is edited
+  audioDuration?: number; // Length of that clip in seconds
+}
+
+/**
+ * A line whose speech does not fit its slot even at the maximum speed-up
+ */
+export interface SegmentOverflow {
+  segmentId: string;
+  start: number;
+  needed: number; // Seconds of speech at a natural pace
+  available: number; // Seconds until the next line (or the end of the video)
+  speedUp: number; // needed / available
+}
+
+export type SpeakerGender = 'male' | 'female' | 'unknown';
+export type SpeakerAge = 'child' | 'young' | 'adult' | 'senior' | 'unknown';
+
+export interface Speaker {
+  id: string;
+  gender: SpeakerGender;
+  age: SpeakerAge;
+}
+
+export interface VideoAnalysis {
+  segments: TranscriptSegment[];
+  speakers: Speaker[];
+  sourceLanguage?: string; // Detected spoken language, BCP-47
+}
+
 export interface ProcessedResult {
-  originalTranscript?: string;
+  targetLanguage?: string;
+  sourceLanguage?: string; // Detected or, for imported subtitles, declared
+  originalTranscript?: string; // Source text of every segment, one line each
   translatedText?: string;
+  segments?: TranscriptSegment[];
   audioUrl?: string;
-}
\ No newline at end of file
+  duration?: number; // Length of the source video in seconds
+  voiceName?: string;
+  hasPendingEdits?: boolean;
+  qaIssues?: Record<string, QaIssue[]>; // Segment id -> findings of the QA pass
+  overflows?: SegmentOverflow[]; // Lines still too long after rephrasing
+}
+
+export type QaIssueType = 'omission' | 'mistranslation' | 'number' | 'untranslated' | 'profanity' | 'length';
+
+export interface QaIssue {
+  type: QaIssueType; // At most one issue of each type per segment
+  message: string;
+  dismissed?: boolean; // Checked by a reviewer and accepted
+}
+export interface SubtitleStyle {
+  showOverlay: boolean; // Preview only
+  burnIn: boolean; // Draw onto the exported video
+  fontSize: number; // Percent of the video height
+  position: 'top' | 'bottom';
+  background: boolean;
+  bilingual: boolean; // Show the original line above the translation
+}
+
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  showOverlay: true,
+  burnIn: false,
+  fontSize: 5,
+  position: 'bottom',
+  background: true,
+  bilingual: false
+};
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  config: DubbingConfig;
+  items: BatchItem[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  itemCount: number;
+}
+
+export type SaveState = 'idle' | 'saving' | 'saved' | 'error';
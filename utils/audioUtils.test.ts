@@ -0,0 +1,189 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { assembleTimeline, audioBufferToWavUrl, decodeAudioData, decodeBase64, fileToBase64, timeStretch } from './audioUtils';
+import { createBuffer } from './testAudio';
+
+const fakeContext = { createBuffer } as unknown as AudioContext;
+
+/**
+ * Captures the Blob handed to URL.createObjectURL
+ */
+const captureObjectUrls = () => {
+  const blobs: Blob[] = [];
+  URL.createObjectURL = vi.fn((blob: Blob) => {
+    blobs.push(blob);
+    return `blob:test/${blobs.length}`;
+  });
+  return blobs;
+};
+
+const readBlob = (blob: Blob): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+const ascii = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+describe('decodeBase64', () => {
+  it('decodes base64 into bytes', () => {
+    expect(Array.from(decodeBase64('AAEC/w=='))).toEqual([0, 1, 2, 255]);
+  });
+
+  it('returns an empty array for an empty string', () => {
+    expect(decodeBase64('')).toHaveLength(0);
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('scales 16-bit samples to [-1, 1)', async () => {
+    const pcm = new Int16Array([0, 16384, -32768, 32767]);
+    const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), fakeContext, 24000);
+
+    expect(buffer.sampleRate).toBe(24000);
+    expect(buffer.length).toBe(4);
+    const data = buffer.getChannelData(0);
+    expect(data[0]).toBe(0);
+    expect(data[1]).toBeCloseTo(0.5);
+    expect(data[2]).toBe(-1);
+    expect(data[3]).toBeCloseTo(32767 / 32768);
+  });
+
+  it('de-interleaves multi-channel PCM', async () => {
+    const pcm = new Int16Array([100, -100, 200, -200]);
+    const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), fakeContext, 16000, 2);
+
+    expect(buffer.numberOfChannels).toBe(2);
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0)).map(v => Math.round(v * 32768))).toEqual([100, 200]);
+    expect(Array.from(buffer.getChannelData(1)).map(v => Math.round(v * 32768))).toEqual([-100, -200]);
+  });
+});
+
+describe('audioBufferToWavUrl', () => {
+  const originalCreateObjectURL = URL.createObjectURL;
+  afterEach(() => {
+    URL.createObjectURL = originalCreateObjectURL;
+  });
+
+  it('writes a 16-bit PCM WAV header and clamped samples', async () => {
+    const blobs = captureObjectUrls();
+    const buffer = createBuffer(1, 3, 24000);
+    buffer.getChannelData(0).set([0, 1.5, -1]);
+
+    const url = audioBufferToWavUrl(buffer);
+
+    expect(url).toBe('blob:test/1');
+    expect(blobs[0].type).toBe('audio/wav');
+    const view = new DataView(await readBlob(blobs[0]));
+    expect(view.byteLength).toBe(44 + 3 * 2);
+    expect(ascii(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(view.byteLength - 8);
+    expect(ascii(view, 8, 4)).toBe('WAVE');
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(1); // channels
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(ascii(view, 36, 4)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(6);
+    expect([view.getInt16(44, true), view.getInt16(46, true), view.getInt16(48, true)]).toEqual([0, 32767, -32768]);
+  });
+
+  it('interleaves stereo channels', async () => {
+    const blobs = captureObjectUrls();
+    const buffer = createBuffer(2, 2, 48000);
+    buffer.getChannelData(0).set([0.5, 0.25]);
+    buffer.getChannelData(1).set([-0.5, -0.25]);
+
+    audioBufferToWavUrl(buffer);
+
+    const view = new DataView(await readBlob(blobs[0]));
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(28, true)).toBe(48000 * 4); // bytes per second
+    const samples = [44, 46, 48, 50].map(offset => view.getInt16(offset, true));
+    expect(samples).toEqual([16383, -16383, 8191, -8191]);
+  });
+});
+
+describe('timeStretch', () => {
+  const SAMPLE_RATE = 8000;
+
+  const sine = (frequency: number, seconds: number) => {
+    const buffer = createBuffer(1, seconds * SAMPLE_RATE, SAMPLE_RATE);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    return buffer;
+  };
+
+  // Rising zero crossings per second, away from the edges
+  const frequencyOf = (buffer: AudioBuffer) => {
+    const data = buffer.getChannelData(0);
+    const from = Math.round(data.length * 0.1);
+    const to = Math.round(data.length * 0.9);
+    let crossings = 0;
+    for (let i = from + 1; i < to; i++) if (data[i - 1] < 0 && data[i] >= 0) crossings++;
+    return crossings / ((to - from) / SAMPLE_RATE);
+  };
+
+  it('shortens a clip to the target duration without raising its pitch', () => {
+    const stretched = timeStretch(sine(220, 2), 1.5, fakeContext);
+    expect(stretched.length).toBe(1.5 * SAMPLE_RATE);
+    expect(frequencyOf(stretched)).toBeCloseTo(220, -1);
+  });
+
+  it('lengthens a clip without lowering its pitch', () => {
+    const stretched = timeStretch(sine(220, 1), 1.25, fakeContext);
+    expect(stretched.length).toBe(1.25 * SAMPLE_RATE);
+    expect(frequencyOf(stretched)).toBeCloseTo(220, -1);
+  });
+
+  it('keeps the level of the input', () => {
+    const data = timeStretch(sine(220, 2), 1.6, fakeContext).getChannelData(0);
+    const peak = data.subarray(800, data.length - 800).reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+    expect(peak).toBeGreaterThan(0.9);
+    expect(peak).toBeLessThan(1.1);
+  });
+
+});
+
+describe('assembleTimeline', () => {
+  const SAMPLE_RATE = 8000;
+  const context = { createBuffer, sampleRate: SAMPLE_RATE } as unknown as AudioContext;
+  const clip = (start: number, seconds: number) =>
+    ({ start, end: start + seconds, buffer: createBuffer(1, seconds * SAMPLE_RATE, SAMPLE_RATE, () => 0.5) });
+
+  it('places every clip at its start time', () => {
+    const data = assembleTimeline([clip(1, 1), clip(0, 0.5)], 3, context).getChannelData(0);
+    expect(data.length).toBe(3 * SAMPLE_RATE);
+    expect([data[0], data[SAMPLE_RATE - 1], data[SAMPLE_RATE], data[2 * SAMPLE_RATE - 1], data[2 * SAMPLE_RATE]]).toEqual([0.5, 0, 0.5, 0.5, 0]);
+  });
+
+  it('fits the last clip into the time left and cuts what still overruns', () => {
+    const track = assembleTimeline([clip(0, 1), clip(1, 2)], 2.5, context, 1.25);
+    const data = track.getChannelData(0);
+    expect(track.length).toBe(2.5 * SAMPLE_RATE);
+    // The first line keeps its place and length
+    expect([data[0], data[SAMPLE_RATE - 1]]).toEqual([0.5, 0.5]);
+    expect(data[track.length - 1]).not.toBe(0);
+  });
+
+  it('keeps a track without a known duration as long as its clips', () => {
+    expect(assembleTimeline([clip(1, 1)], 0, context).length).toBe(2 * SAMPLE_RATE);
+  });
+});
+
+describe('fileToBase64', () => {
+  it('returns the content without the data URL prefix', async () => {
+    const file = new File([new Uint8Array([0, 1, 2, 255])], 'clip.mp4', { type: 'video/mp4' });
+    await expect(fileToBase64(file)).resolves.toBe('AAEC/w==');
+  });
+
+  it('rejects right away when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('stop'));
+    const file = new File(['data'], 'clip.mp4', { type: 'video/mp4' });
+    await expect(fileToBase64(file, controller.signal)).rejects.toThrow('stop');
+  });
+});
@@ -16,7 +16,7 @@ export function decodeBase64(base64: string): Uint8Array {
  */
 export async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number = 24000,
   numChannels: number = 1,
 ): Promise<AudioBuffer> {
@@ -34,9 +34,9 @@ export async function decodeAudioData(
 }
 
 /**
- * Converts an AudioBuffer to a WAV Blob URL for playback/download
+ * Encodes an AudioBuffer as a 16-bit PCM WAV Blob, keeping its channels and sample rate
  */
-export function audioBufferToWavUrl(buffer: AudioBuffer): string {
+export function audioBufferToWavBlob(buffer: AudioBuffer): Blob {
   const numOfChan = buffer.numberOfChannels;
   const length = buffer.length * numOfChan * 2 + 44;
   const bufferArray = new ArrayBuffer(length);
@@ -79,8 +79,7 @@ export function audioBufferToWavUrl(buffer: AudioBuffer): string {
     offset++; // next source sample
   }
 
-  const blob = new Blob([bufferArray], { type: 'audio/wav' });
-  return URL.createObjectURL(blob);
+  return new Blob([bufferArray], { type: 'audio/wav' });
 
   function setUint16(data: number) {
     view.setUint16(pos, data, true);
@@ -93,12 +92,120 @@ export function audioBufferToWavUrl(buffer: AudioBuffer): string {
   }
 }
 
+/**
+ * Converts an AudioBuffer to a WAV Blob URL for playback/download
+ */
+export function audioBufferToWavUrl(buffer: AudioBuffer): string {
+  return URL.createObjectURL(audioBufferToWavBlob(buffer));
+}
+
+// Speech recognition needs no more than telephone-band audio
+export const SPEECH_SAMPLE_RATE = 16000;
+
+/**
+ * Decodes the soundtrack of a media file, downmixed to mono and resampled (16 kHz by default)
+ */
+export async function decodeSpeechAudio(
+  file: File,
+  signal?: AbortSignal,
+  sampleRate: number = SPEECH_SAMPLE_RATE
+): Promise<AudioBuffer> {
+  const data = await file.arrayBuffer();
+  signal?.throwIfAborted();
+
+  // decodeAudioData resamples to the context's rate; an offline context needs no user gesture
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+  const decoded = await ctx.decodeAudioData(data);
+  signal?.throwIfAborted();
+
+  const mono = ctx.createBuffer(1, decoded.length, sampleRate);
+  const output = mono.getChannelData(0);
+  for (let channel = 0; channel < decoded.numberOfChannels; channel++) {
+    const input = decoded.getChannelData(channel);
+    for (let i = 0; i < input.length; i++) {
+      output[i] += input[i] / decoded.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+/**
+ * Wraps (part of) a decoded soundtrack as a WAV file a fraction of the video's size
+ */
+export function speechAudioToFile(
+  buffer: AudioBuffer,
+  name: string,
+  start: number = 0,
+  end: number = buffer.duration
+): File {
+  const from = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const to = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+  const slice = new AudioBuffer({ numberOfChannels: 1, length: Math.max(1, to - from), sampleRate: buffer.sampleRate });
+  slice.copyToChannel(buffer.getChannelData(0).subarray(from, to), 0);
+
+  const baseName = name.replace(/\.[^.]+$/, '');
+  return new File([audioBufferToWavBlob(slice)], `${baseName}.wav`, { type: 'audio/wav' });
+}
+
+/**
+ * Picks split points roughly every `chunkSeconds`, each at the quietest moment
+ * of the `searchSeconds` before the target so no word is cut in half.
+ * Returns the chunk edges in seconds, starting at 0 and ending at the duration.
+ */
+export function findSilenceBoundaries(
+  buffer: AudioBuffer,
+  chunkSeconds: number,
+  searchSeconds: number = 30,
+  frameSeconds: number = 0.05
+): number[] {
+  const duration = buffer.duration;
+  const boundaries = [0];
+  // A short tail is cheaper to analyze with the chunk before it
+  if (duration <= chunkSeconds * 1.2) return [0, duration];
+
+  const data = buffer.getChannelData(0);
+  const frameLength = Math.max(1, Math.round(frameSeconds * buffer.sampleRate));
+  const energyAt = (frame: number) => {
+    let sum = 0;
+    const from = frame * frameLength;
+    const to = Math.min(data.length, from + frameLength);
+    for (let i = from; i < to; i++) sum += data[i] * data[i];
+    return sum / Math.max(1, to - from);
+  };
+
+  let last = 0;
+  while (duration - last > chunkSeconds * 1.2) {
+    const target = last + chunkSeconds;
+    const firstFrame = Math.floor(Math.max(last + chunkSeconds / 2, target - searchSeconds) / frameSeconds);
+    const lastFrame = Math.floor(target / frameSeconds);
+    let best = lastFrame;
+    let bestEnergy = Infinity;
+    for (let frame = firstFrame; frame <= lastFrame; frame++) {
+      const energy = energyAt(frame);
+      if (energy < bestEnergy) {
+        bestEnergy = energy;
+        best = frame;
+      }
+    }
+    // Split in the middle of the quiet frame
+    last = (best + 0.5) * frameSeconds;
+    boundaries.push(last);
+  }
+  boundaries.push(duration);
+  return boundaries;
+}
+
 /**
  * Converts a File object to a Base64 string
  */
-export const fileToBase64 = (file: File): Promise<string> => {
+export const fileToBase64 = (file: File, signal?: AbortSignal): Promise<string> => {
   return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
     const reader = new FileReader();
+    signal?.addEventListener('abort', () => {
+      reader.abort();
+      reject(signal.reason);
+    }, { once: true });
     reader.readAsDataURL(file);
     reader.onload = () => {
       const result = reader.result as string;
@@ -109,3 +216,241 @@ export const fileToBase64 = (file: File): Promise<string> => {
     reader.onerror = (error) => reject(error);
   });
 };
+
+/**
+ * Reads the duration (in seconds) of a media Object URL via a detached element
+ */
+export const getMediaDuration = (url: string): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const media = document.createElement('video');
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => {
+      const duration = media.duration;
+      media.removeAttribute('src');
+      media.load();
+      if (isFinite(duration)) resolve(duration);
+      else reject(new Error("Unknown media duration / 无法读取时长"));
+    };
+    media.onerror = () => reject(new Error("Could not read media metadata / 无法读取媒体信息"));
+    media.src = url;
+  });
+};
+
+// WSOLA analysis frames: long enough to hold a couple of voice periods, short
+// enough not to smear syllables; frames overlap by half
+const STRETCH_FRAME_SECONDS = 0.04;
+// How far a frame may move from its nominal position to line up with the last one
+const STRETCH_TOLERANCE_SECONDS = 0.01;
+// The overlap is searched on a copy averaged over this many samples, then refined
+const STRETCH_DECIMATION = 4;
+// Every n-th sample is enough to refine the best overlap
+const STRETCH_CORRELATION_STEP = 4;
+
+/**
+ * Time-stretches an AudioBuffer to `targetDuration` without changing its pitch.
+ * WSOLA: overlap-adds windowed frames of the input, each shifted within a small
+ * tolerance to where it best continues the previous frame.
+ */
+export function timeStretch(
+  buffer: AudioBuffer,
+  targetDuration: number,
+  ctx: BaseAudioContext,
+): AudioBuffer {
+  const output = ctx.createBuffer(buffer.numberOfChannels, Math.max(1, Math.round(targetDuration * buffer.sampleRate)), buffer.sampleRate);
+  const frameCount = output.length;
+  const inputLength = buffer.length;
+  // A whole number of decimated samples in each half frame
+  const frame = 2 * STRETCH_DECIMATION * Math.max(1, Math.round(STRETCH_FRAME_SECONDS * buffer.sampleRate / (2 * STRETCH_DECIMATION)));
+
+  // Nothing to stretch, or too short to hold a single frame
+  if (frameCount === inputLength || inputLength < frame * 2) {
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      output.getChannelData(channel).set(buffer.getChannelData(channel).subarray(0, frameCount));
+    }
+    return output;
+  }
+
+  const hop = frame / 2;
+  const tolerance = Math.round(STRETCH_TOLERANCE_SECONDS * buffer.sampleRate);
+  const ratio = inputLength / frameCount;
+  const window = new Float32Array(frame);
+  for (let i = 0; i < frame; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frame);
+
+  // Frame positions are chosen on the first channel and applied to all of them
+  const guide = buffer.getChannelData(0);
+  const coarse = new Float32Array(Math.floor(inputLength / STRETCH_DECIMATION));
+  for (let k = 0; k < coarse.length; k++) {
+    let sum = 0;
+    for (let i = 0; i < STRETCH_DECIMATION; i++) sum += guide[k * STRETCH_DECIMATION + i];
+    coarse[k] = sum / STRETCH_DECIMATION;
+  }
+  const coarseFrame = frame / STRETCH_DECIMATION;
+
+  const lastStart = inputLength - frame;
+  const weights = new Float32Array(frameCount);
+  let previous = 0;
+
+  for (let out = 0; out < frameCount; out += hop) {
+    const nominal = Math.min(Math.round(out * ratio), lastStart);
+    let best = nominal;
+
+    if (out > 0) {
+      // Where the previous frame would have carried on had nothing been cut or repeated
+      const natural = Math.min(previous + hop, lastStart);
+      const from = Math.max(0, nominal - tolerance);
+      const to = Math.min(lastStart, nominal + tolerance);
+
+      const naturalCoarse = Math.floor(natural / STRETCH_DECIMATION);
+      let coarseBest = Math.floor(nominal / STRETCH_DECIMATION);
+      let bestScore = -Infinity;
+      for (let candidate = Math.ceil(from / STRETCH_DECIMATION); candidate * STRETCH_DECIMATION <= to; candidate++) {
+        let score = 0;
+        for (let i = 0; i < coarseFrame; i++) score += coarse[naturalCoarse + i] * coarse[candidate + i];
+        if (score > bestScore) {
+          bestScore = score;
+          coarseBest = candidate;
+        }
+      }
+
+      bestScore = -Infinity;
+      const fineFrom = Math.max(from, (coarseBest - 1) * STRETCH_DECIMATION);
+      const fineTo = Math.min(to, (coarseBest + 1) * STRETCH_DECIMATION);
+      for (let candidate = fineFrom; candidate <= fineTo; candidate++) {
+        let score = 0;
+        for (let i = 0; i < frame; i += STRETCH_CORRELATION_STEP) score += guide[natural + i] * guide[candidate + i];
+        if (score > bestScore) {
+          bestScore = score;
+          best = candidate;
+        }
+      }
+    }
+
+    const length = Math.min(frame, frameCount - out);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const input = buffer.getChannelData(channel);
+      const channelData = output.getChannelData(channel);
+      for (let i = 0; i < length; i++) channelData[out + i] += input[best + i] * window[i];
+    }
+    for (let i = 0; i < length; i++) weights[out + i] += window[i];
+    previous = best;
+  }
+
+  // Undo the window gain; the very first samples have (almost) no weight
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const channelData = output.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      if (weights[i] > 1e-3) channelData[i] /= weights[i];
+    }
+  }
+  return output;
+}
+
+export interface TimedClip {
+  start: number;
+  end: number;
+  buffer: AudioBuffer;
+}
+
+/**
+ * Mixes clips into one silent track, each placed at its start time.
+ * A clip longer than the gap before the next clip is sped up (keeping its pitch)
+ * by at most `maxStretch`. With a known `totalDuration` the track ends there:
+ * the last clip is fitted into the time left and whatever still overruns is cut,
+ * so no earlier line drifts off its timestamp.
+ */
+export function assembleTimeline(
+  clips: TimedClip[],
+  totalDuration: number,
+  ctx: BaseAudioContext,
+  maxStretch: number = 1.25,
+): AudioBuffer {
+  const sorted = [...clips].sort((a, b) => a.start - b.start);
+  const sampleRate = ctx.sampleRate;
+
+  const placed = sorted.map((clip, index) => {
+    const slotEnd = index < sorted.length - 1 ? sorted[index + 1].start : totalDuration > 0 ? totalDuration : clip.end;
+    const available = Math.max(slotEnd - clip.start, 0.01);
+    const ratio = Math.min(Math.max(clip.buffer.duration / available, 1), maxStretch);
+    const buffer = ratio > 1 ? timeStretch(clip.buffer, clip.buffer.duration / ratio, ctx) : clip.buffer;
+    return { offset: Math.round(clip.start * sampleRate), buffer };
+  });
+
+  const lastFrame = placed.reduce((max, p) => Math.max(max, p.offset + p.buffer.length), 0);
+  const frameCount = Math.max(totalDuration > 0 ? Math.ceil(totalDuration * sampleRate) : lastFrame, 1);
+  const track = ctx.createBuffer(1, frameCount, sampleRate);
+  const trackData = track.getChannelData(0);
+
+  for (const { offset, buffer } of placed) {
+    const clipData = buffer.getChannelData(0);
+    const length = Math.min(clipData.length, frameCount - offset);
+    for (let i = 0; i < length; i++) {
+      trackData[offset + i] += clipData[i];
+    }
+  }
+  return track;
+}
+
+export interface GainPoint {
+  time: number;
+  value: number;
+}
+
+/**
+ * Builds a volume envelope for the original soundtrack that dips to `duckedLevel`
+ * while dubbed speech is playing and returns to `baseLevel` in between.
+ */
+export function buildDuckingEnvelope(
+  spans: { start: number; end: number }[],
+  baseLevel: number,
+  duckedLevel: number,
+  fadeTime: number = 0.2,
+): GainPoint[] {
+  // Merge spans whose fades would overlap so the bed does not pump between close lines
+  const merged: { start: number; end: number }[] = [];
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && span.start - fadeTime <= last.end + fadeTime) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ start: span.start, end: span.end });
+    }
+  }
+
+  const points: GainPoint[] = [{ time: 0, value: baseLevel }];
+  for (const { start, end } of merged) {
+    const fadeStart = Math.max(0, start - fadeTime);
+    points.push({ time: fadeStart, value: baseLevel });
+    points.push({ time: Math.max(fadeStart, start), value: duckedLevel });
+    points.push({ time: end, value: duckedLevel });
+    points.push({ time: end + fadeTime, value: baseLevel });
+  }
+  return points;
+}
+
+/**
+ * Schedules an envelope on an AudioParam, offset by the context time playback starts at
+ */
+export function applyGainEnvelope(param: AudioParam, points: GainPoint[], startTime: number): void {
+  if (points.length === 0) return;
+  param.setValueAtTime(points[0].value, startTime + points[0].time);
+  for (const point of points.slice(1)) {
+    param.linearRampToValueAtTime(point.value, startTime + point.time);
+  }
+}
+
+/**
+ * Returns the envelope value at a given time, for driving preview volume
+ */
+export function getEnvelopeValue(points: GainPoint[], time: number): number {
+  if (points.length === 0) return 1;
+  for (let i = points.length - 1; i >= 0; i--) {
+    const point = points[i];
+    if (time >= point.time) {
+      const next = points[i + 1];
+      if (!next || next.time === point.time) return point.value;
+      const t = (time - point.time) / (next.time - point.time);
+      return point.value + (next.value - point.value) * Math.min(t, 1);
+    }
+  }
+  return points[0].value;
+}
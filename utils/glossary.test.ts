@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { containsTerm, findGlossaryViolations, mergeGlossary, parseGlossaryCsv, serializeGlossaryCsv } from './glossary';
+import { GlossaryEntry, TranscriptSegment } from '../types';
+
+const GLOSSARY: GlossaryEntry[] = [
+  { id: 'g1', source: 'Acme Cloud', doNotTranslate: true, translations: {} },
+  { id: 'g2', source: 'dashboard', doNotTranslate: false, translations: { 'pt-BR': 'painel', 'zh-CN': '仪表盘' } },
+];
+
+const segment = (sourceText: string, translatedText: string): TranscriptSegment =>
+  ({ id: 'seg-0', start: 0, end: 2, sourceText, translatedText });
+
+describe('containsTerm', () => {
+  it('matches whole words regardless of case', () => {
+    expect(containsTerm('Open the Dashboard now', 'dashboard')).toBe(true);
+    expect(containsTerm('dashboards', 'dashboard')).toBe(false);
+  });
+
+  it('matches CJK terms between other characters', () => {
+    expect(containsTerm('打开仪表盘吧', '仪表盘')).toBe(true);
+  });
+});
+
+describe('findGlossaryViolations', () => {
+  it('accepts translations that follow the glossary', () => {
+    expect(findGlossaryViolations(segment('Acme Cloud has a dashboard', 'Acme Cloud tem um painel'), GLOSSARY, 'pt-BR')).toEqual([]);
+  });
+
+  it('flags translated do-not-translate terms and missing renderings', () => {
+    const violations = findGlossaryViolations(segment('Acme Cloud has a dashboard', 'A Nuvem Acme tem um quadro'), GLOSSARY, 'pt-BR');
+    expect(violations).toEqual([
+      { entryId: 'g1', source: 'Acme Cloud', expected: 'Acme Cloud' },
+      { entryId: 'g2', source: 'dashboard', expected: 'painel' },
+    ]);
+  });
+
+  it('ignores terms without a rendering for the language', () => {
+    expect(findGlossaryViolations(segment('The dashboard', 'El tablero'), GLOSSARY, 'es-ES')).toEqual([]);
+  });
+});
+
+describe('glossary CSV', () => {
+  it('round-trips entries, including quoted fields', () => {
+    const glossary: GlossaryEntry[] = [
+      ...GLOSSARY,
+      { id: 'g3', source: 'Say "hi", Bob', doNotTranslate: false, translations: { 'pt-BR': 'Diga "oi", Bob' } },
+    ];
+    const csv = serializeGlossaryCsv(glossary);
+    expect(csv.split('\r\n')[0]).toBe('source,do_not_translate,pt-BR,zh-CN');
+
+    const parsed = parseGlossaryCsv(csv);
+    expect(parsed.map(({ id, ...entry }) => entry)).toEqual(glossary.map(({ id, ...entry }) => entry));
+  });
+
+  it('reads spreadsheet exports with a byte order mark and yes/no flags', () => {
+    const parsed = parseGlossaryCsv('\uFEFFSource,Do_Not_Translate,es-ES\nAcme,yes,\nlogin,no,iniciar sesión\n');
+    expect(parsed.map(({ id, ...entry }) => entry)).toEqual([
+      { source: 'Acme', doNotTranslate: true, translations: {} },
+      { source: 'login', doNotTranslate: false, translations: { 'es-ES': 'iniciar sesión' } },
+    ]);
+  });
+
+  it('rejects files without a source column', () => {
+    expect(() => parseGlossaryCsv('term,pt-BR\nfoo,bar\n')).toThrow(/source/);
+  });
+
+  it('merges imports by source term, keeping existing ids', () => {
+    const merged = mergeGlossary(GLOSSARY, [
+      { id: 'new-1', source: 'Dashboard', doNotTranslate: true, translations: {} },
+      { id: 'new-2', source: 'Widget', doNotTranslate: true, translations: {} },
+    ]);
+    expect(merged.map(e => [e.id, e.source, e.doNotTranslate])).toEqual([
+      ['g1', 'Acme Cloud', true],
+      ['g2', 'Dashboard', true],
+      ['new-2', 'Widget', true],
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+import { GlossaryEntry, GlossaryViolation, TranscriptSegment } from '../types';
+
+export interface GlossaryTerm {
+  entryId: string;
+  source: string;
+  target: string; // Same as source for do-not-translate entries
+  doNotTranslate: boolean;
+}
+
+/**
+ * The entries that constrain a translation into `language`: do-not-translate
+ * terms, and terms with a rendering for that language
+ */
+export function getGlossaryTerms(glossary: GlossaryEntry[], language: string): GlossaryTerm[] {
+  const terms: GlossaryTerm[] = [];
+  for (const entry of glossary) {
+    const source = entry.source.trim();
+    if (!source) continue;
+    const target = entry.doNotTranslate ? source : entry.translations[language]?.trim();
+    if (target) terms.push({ entryId: entry.id, source, target, doNotTranslate: entry.doNotTranslate });
+  }
+  return terms;
+}
+
+// Scripts that separate words with spaces; CJK terms may sit directly between other characters
+const WORD_CHAR = '[\\p{Script=Latin}\\p{Script=Cyrillic}\\p{Script=Greek}\\p{N}]';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Case-insensitive match of a whole term, so "Pro" does not match "product"
+ */
+export function containsTerm(text: string, term: string): boolean {
+  const pattern = new RegExp(`(?<!${WORD_CHAR})${escapeRegExp(term.trim())}(?!${WORD_CHAR})`, 'iu');
+  return pattern.test(text);
+}
+
+/**
+ * Lists the glossary terms spoken in the original line that the translation
+ * does not render as required
+ */
+export function findGlossaryViolations(
+  segment: TranscriptSegment,
+  glossary: GlossaryEntry[],
+  language: string
+): GlossaryViolation[] {
+  if (!segment.sourceText) return [];
+  return getGlossaryTerms(glossary, language)
+    .filter(term => containsTerm(segment.sourceText, term.source) && !containsTerm(segment.translatedText, term.target))
+    .map(term => ({ entryId: term.entryId, source: term.source, expected: term.target }));
+}
+
+const SOURCE_COLUMN = 'source';
+const DO_NOT_TRANSLATE_COLUMN = 'do_not_translate';
+const TRUE_VALUES = ['1', 'true', 'yes', 'x', 'y'];
+
+/**
+ * Splits CSV text into rows of fields (RFC 4180: quoted fields may hold
+ * commas, doubled quotes and line breaks)
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+/**
+ * Reads a glossary from CSV with the header
+ * `source,do_not_translate,<language code>,...`
+ */
+export function parseGlossaryCsv(text: string): GlossaryEntry[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(cell => cell.trim());
+  if (columns[0]?.toLowerCase() !== SOURCE_COLUMN) {
+    throw new Error(`Glossary CSV must start with a "${SOURCE_COLUMN}" column / 术语表 CSV 的第一列应为 ${SOURCE_COLUMN}`);
+  }
+  const doNotTranslateIndex = columns.findIndex(c => c.toLowerCase() === DO_NOT_TRANSLATE_COLUMN);
+
+  const entries: GlossaryEntry[] = [];
+  for (const row of rows) {
+    const source = row[0]?.trim();
+    if (!source) continue;
+    const translations: Record<string, string> = {};
+    columns.forEach((language, index) => {
+      if (index === 0 || index === doNotTranslateIndex || !language) return;
+      const rendering = row[index]?.trim();
+      if (rendering) translations[language] = rendering;
+    });
+    entries.push({
+      id: crypto.randomUUID(),
+      source,
+      doNotTranslate: doNotTranslateIndex > 0 && TRUE_VALUES.includes(row[doNotTranslateIndex]?.trim().toLowerCase()),
+      translations,
+    });
+  }
+  return entries;
+}
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Writes the glossary as CSV, one column per language that has a rendering
+ */
+export function serializeGlossaryCsv(glossary: GlossaryEntry[]): string {
+  const languages = [...new Set(glossary.flatMap(entry => Object.keys(entry.translations)))];
+  const rows = [
+    [SOURCE_COLUMN, DO_NOT_TRANSLATE_COLUMN, ...languages],
+    ...glossary.map(entry => [
+      entry.source,
+      entry.doNotTranslate ? 'true' : '',
+      ...languages.map(language => entry.translations[language] ?? ''),
+    ]),
+  ];
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Adds imported entries to a glossary; an imported term replaces an existing
+ * entry with the same source text
+ */
+export function mergeGlossary(existing: GlossaryEntry[], imported: GlossaryEntry[]): GlossaryEntry[] {
+  const merged = [...existing];
+  for (const entry of imported) {
+    const index = merged.findIndex(e => e.source.trim().toLowerCase() === entry.source.trim().toLowerCase());
+    if (index === -1) {
+      merged.push(entry);
+    } else {
+      merged[index] = { ...entry, id: merged[index].id };
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { findOverflows, getAvailableTimes } from './isochrony';
+import { TranscriptSegment } from '../types';
+
+const segment = (id: string, start: number, end: number, audioDuration?: number): TranscriptSegment =>
+  ({ id, start, end, sourceText: '', translatedText: '', audioDuration });
+
+describe('getAvailableTimes', () => {
+  it('lets each line run until the next one starts', () => {
+    const times = getAvailableTimes([segment('b', 4, 5), segment('a', 0, 2)], 10);
+    expect(times).toEqual({ a: 4, b: 6 });
+  });
+
+  it('ends the last line at its own end when the video length is unknown', () => {
+    expect(getAvailableTimes([segment('a', 1, 3)])).toEqual({ a: 2 });
+  });
+});
+
+describe('findOverflows', () => {
+  const measure = (s: TranscriptSegment) => s.audioDuration;
+
+  it('reports lines that need more than the allowed speed-up', () => {
+    const segments = [segment('a', 0, 2, 2.2), segment('b', 2, 4, 3), segment('c', 4, 6)];
+    const overflows = findOverflows(segments, 1.15, 6, measure);
+    expect(overflows).toEqual([{ segmentId: 'b', start: 2, needed: 3, available: 2, speedUp: 1.5 }]);
+  });
+
+  it('reports nothing when every line fits', () => {
+    expect(findOverflows([segment('a', 0, 2, 2)], 1.0, 2, measure)).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+import { SegmentOverflow, TranscriptSegment } from '../types';
+
+/**
+ * Seconds each line may use: from its start until the next line starts, the
+ * last one until the end of the video (or its own end when that is unknown)
+ */
+export function getAvailableTimes(segments: TranscriptSegment[], totalDuration: number = 0): Record<string, number> {
+  const sorted = [...segments].sort((a, b) => a.start - b.start);
+  const times: Record<string, number> = {};
+  sorted.forEach((segment, index) => {
+    const slotEnd = index < sorted.length - 1 ? sorted[index + 1].start : Math.max(totalDuration, segment.end);
+    times[segment.id] = Math.max(slotEnd - segment.start, 0.01);
+  });
+  return times;
+}
+
+/**
+ * Lines whose speech would have to be played faster than `maxSpeedUp` to fit.
+ * `measure` gives the speech length of a line, estimated or of its clip;
+ * lines it cannot measure are skipped.
+ */
+export function findOverflows(
+  segments: TranscriptSegment[],
+  maxSpeedUp: number,
+  totalDuration: number,
+  measure: (segment: TranscriptSegment) => number | undefined
+): SegmentOverflow[] {
+  const available = getAvailableTimes(segments, totalDuration);
+  const overflows: SegmentOverflow[] = [];
+  for (const segment of segments) {
+    const needed = measure(segment);
+    if (needed === undefined) continue;
+    const speedUp = needed / available[segment.id];
+    if (speedUp > maxSpeedUp) {
+      overflows.push({ segmentId: segment.id, start: segment.start, needed, available: available[segment.id], speedUp });
+    }
+  }
+  return overflows;
+}
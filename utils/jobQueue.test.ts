@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CancelledError, createJobQueue, JobContext } from './jobQueue';
+
+/**
+ * Jobs that run until the test finishes them, recording when each one starts
+ */
+const createJobs = () => {
+  const started: string[] = [];
+  const contexts = new Map<string, JobContext>();
+  const finishers = new Map<string, () => void>();
+  const run = (id: string, context: JobContext) => {
+    started.push(id);
+    contexts.set(id, context);
+    return new Promise<void>(resolve => finishers.set(id, resolve));
+  };
+  const finish = async (id: string) => {
+    finishers.get(id)!();
+    // Let the queue's finally handler start the next job
+    await new Promise(resolve => setTimeout(resolve, 0));
+  };
+  return { started, contexts, run, finish };
+};
+
+describe('createJobQueue', () => {
+  it('runs no more jobs at once than the concurrency allows', async () => {
+    const jobs = createJobs();
+    const queue = createJobQueue({ concurrency: 2, run: jobs.run });
+    ['a', 'b', 'c'].forEach(queue.enqueue);
+    expect(jobs.started).toEqual(['a', 'b']);
+
+    await jobs.finish('a');
+    expect(jobs.started).toEqual(['a', 'b', 'c']);
+    expect(queue.has('a')).toBe(false);
+  });
+
+  it('starts waiting jobs when the concurrency is raised', () => {
+    const jobs = createJobs();
+    const queue = createJobQueue({ concurrency: 1, run: jobs.run });
+    ['a', 'b', 'c'].forEach(queue.enqueue);
+    expect(jobs.started).toEqual(['a']);
+
+    queue.setConcurrency(3);
+    expect(jobs.started).toEqual(['a', 'b', 'c']);
+  });
+
+  it('lets running jobs finish when the concurrency is lowered', async () => {
+    const jobs = createJobs();
+    const queue = createJobQueue({ concurrency: 2, run: jobs.run });
+    ['a', 'b', 'c', 'd'].forEach(queue.enqueue);
+    queue.setConcurrency(1);
+
+    await jobs.finish('a');
+    expect(jobs.started).toEqual(['a', 'b']);
+    await jobs.finish('b');
+    expect(jobs.started).toEqual(['a', 'b', 'c']);
+  });
+
+  it('skips paused jobs that are waiting until they are resumed', async () => {
+    const jobs = createJobs();
+    const queue = createJobQueue({ concurrency: 1, run: jobs.run });
+    ['a', 'b', 'c'].forEach(queue.enqueue);
+    queue.pause('b');
+    expect(queue.isPaused('b')).toBe(true);
+
+    await jobs.finish('a');
+    expect(jobs.started).toEqual(['a', 'c']);
+    queue.resume('b');
+    await jobs.finish('c');
+    expect(jobs.started).toEqual(['a', 'c', 'b']);
+  });
+
+  it('holds a running job at its next checkpoint while it is paused', async () => {
+    const jobs = createJobs();
+    const queue = createJobQueue({ concurrency: 1, run: jobs.run });
+    queue.enqueue('a');
+    queue.pause('a');
+
+    let passed = false;
+    const checkpoint = jobs.contexts.get('a')!.checkpoint().then(() => { passed = true; });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(passed).toBe(false);
+
+    queue.resume('a');
+    await checkpoint;
+    expect(passed).toBe(true);
+  });
+
+  it('reports busy only while jobs are running or ready to run', async () => {
+    const jobs = createJobs();
+    const onBusyChange = vi.fn();
+    const queue = createJobQueue({ concurrency: 1, run: jobs.run, onBusyChange });
+    queue.enqueue('a');
+    expect(onBusyChange).toHaveBeenLastCalledWith(true);
+
+    await jobs.finish('a');
+    expect(onBusyChange).toHaveBeenLastCalledWith(false);
+    queue.enqueue('b');
+    queue.pause('b');
+    await jobs.finish('b');
+    expect(onBusyChange).toHaveBeenLastCalledWith(false);
+  });
+
+  it('drops a cancelled job that has not started yet', () => {
+    const jobs = createJobs();
+    const queue = createJobQueue({ concurrency: 1, run: jobs.run });
+    ['a', 'b'].forEach(queue.enqueue);
+
+    expect(queue.cancel('b')).toBe(false);
+    expect(queue.has('b')).toBe(false);
+    expect(jobs.started).toEqual(['a']);
+  });
+
+  it('aborts a running job and fails its checkpoints, even while paused', async () => {
+    const jobs = createJobs();
+    const queue = createJobQueue({ concurrency: 1, run: jobs.run });
+    queue.enqueue('a');
+    queue.pause('a');
+    const { checkpoint, signal } = jobs.contexts.get('a')!;
+    const waiting = checkpoint();
+
+    expect(queue.cancel('a')).toBe(true);
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBeInstanceOf(CancelledError);
+    await expect(waiting).rejects.toBeInstanceOf(CancelledError);
+    await expect(checkpoint()).rejects.toBeInstanceOf(CancelledError);
+  });
+
+  it('cancels everything and returns the jobs that were still waiting', () => {
+    const jobs = createJobs();
+    const queue = createJobQueue({ concurrency: 1, run: jobs.run });
+    ['a', 'b', 'c'].forEach(queue.enqueue);
+
+    expect(queue.cancelAll()).toEqual(['b', 'c']);
+    expect(jobs.contexts.get('a')!.signal.aborted).toBe(true);
+    expect(jobs.started).toEqual(['a']);
+  });
+});
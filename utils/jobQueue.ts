@@ -0,0 +1,152 @@
+export class CancelledError extends Error {
+  constructor() {
+    super("Cancelled / 已取消");
+    this.name = 'CancelledError';
+  }
+}
+
+export interface JobContext {
+  /**
+   * Called by a job between steps: waits while the job is paused and throws
+   * CancelledError once it has been cancelled
+   */
+  checkpoint: () => Promise<void>;
+  /**
+   * Aborted when the job is cancelled, so in-flight requests stop immediately
+   */
+  signal: AbortSignal;
+}
+
+interface Job {
+  id: string;
+  running: boolean;
+  paused: boolean;
+  cancelled: boolean;
+  controller: AbortController;
+  resumeWaiters: (() => void)[];
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  run: (id: string, context: JobContext) => Promise<void>;
+  onBusyChange?: (busy: boolean) => void;
+}
+
+/**
+ * Runs jobs (identified by id) with a bounded number in flight. Jobs can be
+ * paused, resumed and cancelled whether they are waiting or running.
+ */
+export const createJobQueue = (options: JobQueueOptions) => {
+  let concurrency = Math.max(1, options.concurrency);
+  const jobs = new Map<string, Job>();
+  const pending: string[] = [];
+  let active = 0;
+  let busy = false;
+
+  const setBusy = (value: boolean) => {
+    if (busy === value) return;
+    busy = value;
+    options.onBusyChange?.(value);
+  };
+
+  const wake = (job: Job) => {
+    const waiters = job.resumeWaiters;
+    job.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  };
+
+  const checkpoint = async (job: Job) => {
+    while (job.paused && !job.cancelled) {
+      await new Promise<void>(resolve => job.resumeWaiters.push(resolve));
+    }
+    if (job.cancelled || job.controller.signal.aborted) throw new CancelledError();
+  };
+
+  const pump = () => {
+    while (active < concurrency) {
+      const index = pending.findIndex(id => !jobs.get(id)?.paused);
+      if (index === -1) break;
+      const [id] = pending.splice(index, 1);
+      const job = jobs.get(id);
+      if (!job) continue;
+
+      job.running = true;
+      active++;
+      options.run(id, { checkpoint: () => checkpoint(job), signal: job.controller.signal })
+        .catch(error => console.error(`Job ${id} failed`, error))
+        .finally(() => {
+          active--;
+          jobs.delete(id);
+          pump();
+        });
+    }
+    // Paused jobs that are still waiting do not keep the queue busy
+    setBusy(active > 0 || pending.some(id => !jobs.get(id)?.paused));
+  };
+
+  /**
+   * Returns true when the job was already running; its requests are aborted
+   * and it stops at its next checkpoint
+   */
+  const cancel = (id: string): boolean => {
+    const job = jobs.get(id);
+    if (!job) return false;
+    job.cancelled = true;
+    job.controller.abort(new CancelledError());
+    wake(job);
+    if (!job.running) {
+      jobs.delete(id);
+      pending.splice(pending.indexOf(id), 1);
+      pump();
+    }
+    return job.running;
+  };
+
+  return {
+    enqueue: (id: string) => {
+      if (jobs.has(id)) return;
+      jobs.set(id, {
+        id,
+        running: false,
+        paused: false,
+        cancelled: false,
+        controller: new AbortController(),
+        resumeWaiters: [],
+      });
+      pending.push(id);
+      pump();
+    },
+    pause: (id: string) => {
+      const job = jobs.get(id);
+      if (!job) return;
+      job.paused = true;
+      pump();
+    },
+    resume: (id: string) => {
+      const job = jobs.get(id);
+      if (!job) return;
+      job.paused = false;
+      wake(job);
+      pump();
+    },
+    cancel,
+    /**
+     * Cancels every job, returning the ids of those that were still waiting
+     */
+    cancelAll: (): string[] => {
+      const waiting: string[] = [];
+      for (const id of Array.from(jobs.keys())) {
+        if (!cancel(id)) waiting.push(id);
+      }
+      return waiting;
+    },
+    has: (id: string) => jobs.has(id),
+    isPaused: (id: string) => !!jobs.get(id)?.paused,
+    setConcurrency: (value: number) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+  };
+};
+
+export type JobQueue = ReturnType<typeof createJobQueue>;
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRateLimiter, isRetryableError, sleep, withRetry } from './rateLimit';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+/**
+ * Resolves to how many of the promises have settled so far
+ */
+const countSettled = async (promises: Promise<unknown>[]) => {
+  let settled = 0;
+  promises.forEach(promise => promise.then(() => settled++, () => settled++));
+  await vi.advanceTimersByTimeAsync(0);
+  return () => settled;
+};
+
+describe('sleep', () => {
+  it('rejects with the abort reason as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(60000, controller.signal);
+    controller.abort(new Error('stop'));
+    await expect(waiting).rejects.toThrow('stop');
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('lets a burst through and then waits for tokens to refill', async () => {
+    const limiter = createRateLimiter(60, 2);
+    const settled = await countSettled([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    expect(settled()).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(settled()).toBe(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(settled()).toBe(3);
+  });
+
+  it('refills no more than the burst while idle', async () => {
+    const limiter = createRateLimiter(60, 2);
+    await limiter.acquire();
+    await limiter.acquire();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    const settled = await countSettled([limiter.acquire(), limiter.acquire(), limiter.acquire()]);
+    expect(settled()).toBe(2);
+  });
+
+  it('serves callers in order', async () => {
+    const limiter = createRateLimiter(60);
+    const order: number[] = [];
+    const calls = [1, 2, 3].map(n => limiter.acquire().then(() => order.push(n)));
+    await vi.advanceTimersByTimeAsync(2000);
+    await Promise.all(calls);
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('applies a new rate to callers that are already waiting', async () => {
+    const limiter = createRateLimiter(60);
+    await limiter.acquire();
+    const settled = await countSettled([limiter.acquire()]);
+    limiter.setRate(600);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(settled()).toBe(1);
+  });
+
+  it('gives up a wait when its signal aborts, without blocking later callers', async () => {
+    const limiter = createRateLimiter(60);
+    await limiter.acquire();
+    const controller = new AbortController();
+    const aborted = limiter.acquire(controller.signal);
+    const next = limiter.acquire();
+    controller.abort(new Error('stop'));
+
+    await expect(aborted).rejects.toThrow('stop');
+    await vi.advanceTimersByTimeAsync(1000);
+    await expect(next).resolves.toBeUndefined();
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries rate limits, timeouts and server errors', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError(new Error('got status: RESOURCE_EXHAUSTED'))).toBe(true);
+    expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+  });
+
+  it('does not retry bad requests or invalid output', () => {
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError({ status: 401, message: '503' })).toBe(false);
+    expect(isRetryableError(new Error('Invalid segment JSON'))).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  it('backs off exponentially between retryable failures', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const onRetry = vi.fn();
+    const fn = vi.fn()
+      .mockRejectedValueOnce({ status: 429 })
+      .mockRejectedValueOnce({ status: 500 })
+      .mockResolvedValueOnce('done');
+
+    const result = withRetry(fn, { baseDelayMs: 1000, onRetry });
+    await vi.advanceTimersByTimeAsync(1500);
+    await expect(result).resolves.toBe('done');
+    expect(onRetry.mock.calls.map(([attempt, delayMs]) => [attempt, delayMs])).toEqual([[1, 500], [2, 1000]]);
+  });
+
+  it('caps the delay at maxDelayMs', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const onRetry = vi.fn();
+    const fn = vi.fn().mockRejectedValueOnce({ status: 503 }).mockResolvedValueOnce('done');
+
+    const result = withRetry(fn, { baseDelayMs: 1000, maxDelayMs: 200, onRetry });
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(result).resolves.toBe('done');
+    expect(onRetry).toHaveBeenCalledWith(1, 200, { status: 503 });
+  });
+
+  it('throws once the retries are used up', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fn = vi.fn().mockRejectedValue({ status: 503 });
+
+    const result = withRetry(fn, { retries: 2 });
+    const failed = expect(result).rejects.toEqual({ status: 503 });
+    await vi.runAllTimersAsync();
+    await failed;
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws errors that are not worth retrying right away', async () => {
+    const fn = vi.fn().mockRejectedValue({ status: 400 });
+    await expect(withRetry(fn)).rejects.toEqual({ status: 400 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the next attempt when aborted', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue({ status: 503 });
+    const result = withRetry(fn, { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort(new Error('stop'));
+
+    await expect(result).rejects.toThrow('stop');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
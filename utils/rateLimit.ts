@@ -0,0 +1,100 @@
+/**
+ * Resolves after `ms`, or rejects with the abort reason as soon as `signal` aborts
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Token bucket shared by every model call. Tokens refill continuously at
+ * `requestsPerMinute`, and up to `burst` calls may go out back to back.
+ */
+export const createRateLimiter = (requestsPerMinute: number, burst: number = 1) => {
+  let rate = requestsPerMinute;
+  let capacity = Math.max(1, burst);
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  // Waiters are served in order so a steady stream of callers cannot starve an early one
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) / 60000) * rate);
+    lastRefill = now;
+  };
+
+  const takeToken = async (signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    refill();
+    while (tokens < 1) {
+      const waitMs = ((1 - tokens) / rate) * 60000;
+      await sleep(Math.ceil(waitMs), signal);
+      refill();
+    }
+    tokens -= 1;
+  };
+
+  return {
+    acquire: (signal?: AbortSignal): Promise<void> => {
+      const turn = queue.then(() => takeToken(signal));
+      queue = turn.catch(() => undefined);
+      return turn;
+    },
+    setRate: (requestsPerMinute: number, newBurst: number = capacity) => {
+      refill();
+      rate = Math.max(1, requestsPerMinute);
+      capacity = Math.max(1, newBurst);
+      tokens = Math.min(tokens, capacity);
+    },
+  };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+/**
+ * Rate limits (429) and server-side failures (5xx) are worth another try; bad
+ * requests, auth errors and invalid model output are not.
+ */
+export const isRetryableError = (error: any): boolean => {
+  const status = typeof error?.status === 'number' ? error.status : undefined;
+  if (status !== undefined) return status === 429 || status === 408 || status >= 500;
+
+  const message = String(error?.message || '');
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|fetch failed|Failed to fetch|NetworkError/i.test(message);
+};
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs `fn`, retrying retryable failures with exponential backoff and full jitter
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 4, baseDelayMs = 1000, maxDelayMs = 30000, onRetry, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !isRetryableError(error)) throw error;
+      const delayMs = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      onRetry?.(attempt + 1, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
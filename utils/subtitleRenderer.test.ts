@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { drawSubtitles } from './subtitleRenderer';
+import { DEFAULT_SUBTITLE_STYLE } from '../types';
+
+/**
+ * Canvas context whose characters are all 10px wide, recording the rows drawn
+ */
+const createContext = () => {
+  const rows: string[] = [];
+  const ctx = {
+    save: () => {},
+    restore: () => {},
+    measureText: (text: string) => ({ width: text.length * 10 }),
+    fillRect: () => {},
+    strokeText: () => {},
+    fillText: (text: string) => rows.push(text),
+  } as unknown as CanvasRenderingContext2D;
+  return { ctx, rows };
+};
+
+// 100px wide, so rows hold up to 9 characters
+const draw = (text: string) => {
+  const { ctx, rows } = createContext();
+  drawSubtitles(ctx, [{ text, isOriginal: false }], DEFAULT_SUBTITLE_STYLE, 100, 100);
+  return rows;
+};
+
+describe('drawSubtitles', () => {
+  it('wraps between words', () => {
+    expect(draw('one two three four')).toEqual(['one two', 'three', 'four']);
+  });
+
+  it('breaks text without spaces between characters', () => {
+    expect(draw('一二三四五六七八九十一二')).toEqual(['一二三四五六七八九', '十一二']);
+  });
+
+  it('continues a long word on the row before it', () => {
+    expect(draw('ok 一二三四五六七八九十')).toEqual(['ok 一二三四五六', '七八九十']);
+  });
+});
@@ -0,0 +1,103 @@
+import { SubtitleStyle, TranscriptSegment } from '../types';
+
+export interface SubtitleLine {
+  text: string;
+  isOriginal: boolean;
+}
+
+/**
+ * Finds the segment being spoken at the given time (in seconds)
+ */
+export function getActiveSegment(
+  segments: TranscriptSegment[],
+  time: number
+): TranscriptSegment | undefined {
+  return segments.find(segment => time >= segment.start && time < segment.end);
+}
+
+export function getSubtitleLines(segment: TranscriptSegment, style: SubtitleStyle): SubtitleLine[] {
+  const lines: SubtitleLine[] = [];
+  if (style.bilingual && segment.sourceText) {
+    lines.push({ text: segment.sourceText, isOriginal: true });
+  }
+  lines.push({ text: segment.translatedText, isOriginal: false });
+  return lines;
+}
+
+/**
+ * Greedy word wrap against the canvas font currently set on ctx. A word wider
+ * than a whole row, such as CJK text without spaces, breaks between characters.
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const fits = (candidate: string) => ctx.measureText(candidate).width <= maxWidth;
+  const words = text.split(/\s+/).filter(Boolean);
+  const rows: string[] = [];
+  let row = '';
+  for (const word of words) {
+    const candidate = row ? `${row} ${word}` : word;
+    if (fits(candidate)) {
+      row = candidate;
+    } else if (fits(word)) {
+      rows.push(row);
+      row = word;
+    } else {
+      let rest = row ? `${row} ` : '';
+      for (const char of word) {
+        if (rest.trim() && !fits(rest + char)) {
+          rows.push(rest.trimEnd());
+          rest = '';
+        }
+        rest += char;
+      }
+      row = rest;
+    }
+  }
+  if (row) rows.push(row);
+  return rows;
+}
+
+/**
+ * Draws subtitle lines onto a video-sized canvas, used when burning subtitles into an export
+ */
+export function drawSubtitles(
+  ctx: CanvasRenderingContext2D,
+  lines: SubtitleLine[],
+  style: SubtitleStyle,
+  width: number,
+  height: number
+): void {
+  if (lines.length === 0) return;
+
+  const fontPx = Math.max(10, Math.round(height * style.fontSize / 100));
+  const lineHeight = fontPx * 1.3;
+  const padding = fontPx * 0.3;
+  const margin = height * 0.06;
+
+  ctx.save();
+  ctx.font = `600 ${fontPx}px Inter, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const rows = lines.flatMap(line =>
+    wrapText(ctx, line.text, width * 0.9).map(text => ({ text, isOriginal: line.isOriginal }))
+  );
+  const blockHeight = rows.length * lineHeight;
+  const top = style.position === 'top' ? margin : height - margin - blockHeight;
+
+  rows.forEach((row, index) => {
+    const y = top + index * lineHeight + lineHeight / 2;
+    if (style.background) {
+      const textWidth = ctx.measureText(row.text).width;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.65)';
+      ctx.fillRect(width / 2 - textWidth / 2 - padding, y - lineHeight / 2, textWidth + padding * 2, lineHeight);
+    } else {
+      ctx.lineWidth = Math.max(2, fontPx / 8);
+      ctx.strokeStyle = 'rgba(0, 0, 0, 0.9)';
+      ctx.strokeText(row.text, width / 2, y);
+    }
+    ctx.fillStyle = row.isOriginal ? '#cbd5e1' : '#ffffff';
+    ctx.fillText(row.text, width / 2, y);
+  });
+
+  ctx.restore();
+}
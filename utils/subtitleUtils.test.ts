@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { formatTimestamp, parseSubtitles, parseTimestamp, serializeSubtitles, SubtitleCue } from './subtitleUtils';
+
+const SRT = `1
+00:00:01,000 --> 00:00:02,500
+Hello there.
+
+2
+00:00:03,000 --> 00:00:05,250
+First line
+second line
+`;
+
+describe('parseTimestamp', () => {
+  it('reads SRT commas and WebVTT dots alike', () => {
+    expect(parseTimestamp('01:02:03,450')).toBeCloseTo(3723.45);
+    expect(parseTimestamp('01:02:03.450')).toBeCloseTo(3723.45);
+  });
+
+  it('reads WebVTT timestamps without hours', () => {
+    expect(parseTimestamp('02:03.5')).toBeCloseTo(123.5);
+  });
+
+  it('rejects malformed values', () => {
+    expect(parseTimestamp('1:75:00,000')).toBeNull();
+    expect(parseTimestamp('soon')).toBeNull();
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('uses a comma for SRT and a dot for WebVTT', () => {
+    expect(formatTimestamp(3723.45)).toBe('01:02:03,450');
+    expect(formatTimestamp(3723.45, 'vtt')).toBe('01:02:03.450');
+  });
+
+  it('carries rounded milliseconds into the next unit', () => {
+    expect(formatTimestamp(59.9996)).toBe('00:01:00,000');
+  });
+});
+
+describe('parseSubtitles', () => {
+  it('parses SRT cues, keeping multi-line text', () => {
+    expect(parseSubtitles(SRT)).toEqual([
+      { start: 1, end: 2.5, text: 'Hello there.' },
+      { start: 3, end: 5.25, text: 'First line\nsecond line' },
+    ]);
+  });
+
+  it('accepts a BOM and CRLF line endings', () => {
+    expect(parseSubtitles(`\uFEFF${SRT.replace(/\n/g, '\r\n')}`)).toEqual(parseSubtitles(SRT));
+  });
+
+  it('parses WebVTT with hour-less timestamps, cue settings and header blocks', () => {
+    const vtt = `WEBVTT
+
+NOTE written by hand
+
+intro
+00:01.000 --> 00:02.000 align:start position:10%
+Hi!
+`;
+    expect(parseSubtitles(vtt)).toEqual([{ start: 1, end: 2, text: 'Hi!' }]);
+  });
+
+  it('strips markup that should not be spoken', () => {
+    const vtt = `WEBVTT
+
+00:00:01.000 --> 00:00:02.000
+<v Anna>{\\an8}<i>Fish &amp; chips</i></v>
+`;
+    expect(parseSubtitles(vtt)[0].text).toBe('Fish & chips');
+  });
+
+  it('skips cues without text or with an end before the start', () => {
+    const srt = `1
+00:00:05,000 --> 00:00:04,000
+Backwards
+
+2
+00:00:06,000 --> 00:00:07,000
+<i></i>
+`;
+    expect(parseSubtitles(srt)).toEqual([]);
+  });
+});
+
+describe('serializeSubtitles', () => {
+  const cues: SubtitleCue[] = [
+    { start: 1, end: 2.5, text: 'Hello there.' },
+    { start: 3725, end: 3727.125, text: 'First line\nsecond line' },
+  ];
+
+  it('writes numbered SRT cues', () => {
+    expect(serializeSubtitles(cues, 'srt')).toBe(
+      '1\n00:00:01,000 --> 00:00:02,500\nHello there.\n\n2\n01:02:05,000 --> 01:02:07,125\nFirst line\nsecond line\n'
+    );
+  });
+
+  it('writes a WebVTT header and escapes the timing arrow', () => {
+    const vtt = serializeSubtitles([{ start: 0, end: 1, text: 'A --> B' }], 'vtt');
+    expect(vtt).toBe('WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.000\nA -> B\n');
+  });
+
+  it('round-trips through the parser in both formats', () => {
+    expect(parseSubtitles(serializeSubtitles(cues, 'srt'))).toEqual(cues);
+    expect(parseSubtitles(serializeSubtitles(cues, 'vtt'))).toEqual(cues);
+  });
+});
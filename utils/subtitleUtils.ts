@@ -0,0 +1,131 @@
+import { TranscriptSegment } from '../types';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/;
+
+/**
+ * Parses "HH:MM:SS,mmm", "HH:MM:SS.mmm" or "MM:SS.mmm" into seconds
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) return null;
+
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  if (minutes > 59 || seconds > 59) return null;
+
+  // Treat the fraction as a decimal fraction so "1,5" means 1.5s
+  const fraction = match[4] ? parseFloat(`0.${match[4]}`) : 0;
+  return hours * 3600 + minutes * 60 + seconds + fraction;
+}
+
+/**
+ * Formats seconds as "HH:MM:SS,mmm" (SRT) or "HH:MM:SS.mmm" (WebVTT)
+ */
+export function formatTimestamp(totalSeconds: number, format: SubtitleFormat = 'srt'): string {
+  // Round to whole milliseconds first so 59.9996s carries into the next minute
+  const totalMs = Math.max(0, Math.round(totalSeconds * 1000));
+  const ms = totalMs % 1000;
+  const seconds = Math.floor(totalMs / 1000) % 60;
+  const minutes = Math.floor(totalMs / 60000) % 60;
+  const hours = Math.floor(totalMs / 3600000);
+
+  const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+  const separator = format === 'srt' ? ',' : '.';
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Removes inline markup (<i>, <v Speaker>, <c.class>, {\an8}) that should not be spoken
+ */
+const stripMarkup = (text: string): string =>
+  text
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ');
+
+/**
+ * Parses SRT or WebVTT content into cues. Both formats share the
+ * "start --> end" timing line, so a single block parser handles either.
+ */
+export function parseSubtitles(content: string): SubtitleCue[] {
+  const normalized = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n');
+
+  const blocks = normalized.split(/\n[ \t]*\n/);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    // Skips the WEBVTT header, NOTE/STYLE/REGION blocks and stray text
+    if (timingIndex === -1) continue;
+
+    const [startPart, rest] = lines[timingIndex].split('-->');
+    // WebVTT cue settings ("align:start position:10%") follow the end time
+    const endPart = rest.trim().split(/\s+/)[0] || '';
+    const start = parseTimestamp(startPart);
+    const end = parseTimestamp(endPart);
+    if (start === null || end === null || end <= start) continue;
+
+    const text = lines
+      .slice(timingIndex + 1)
+      .map(line => stripMarkup(line).trim())
+      .filter(Boolean)
+      .join('\n');
+    if (!text) continue;
+
+    cues.push({ start, end, text });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Serializes cues as SRT or WebVTT
+ */
+export function serializeSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+  const body = cues
+    .map((cue, index) => {
+      // A blank line would end the cue early, and "-->" is reserved in WebVTT
+      let text = cue.text.replace(/\n[ \t]*\n+/g, '\n').trim();
+      if (format === 'vtt') text = text.replace(/-->/g, '->');
+      const timing = `${formatTimestamp(cue.start, format)} --> ${formatTimestamp(cue.end, format)}`;
+      return `${index + 1}\n${timing}\n${text}`;
+    })
+    .join('\n\n');
+
+  if (format === 'vtt') return body ? `WEBVTT\n\n${body}\n` : 'WEBVTT\n';
+  return body ? `${body}\n` : '';
+}
+
+export function segmentsToCues(
+  segments: TranscriptSegment[],
+  field: 'translatedText' | 'sourceText' = 'translatedText'
+): SubtitleCue[] {
+  return segments
+    .filter(segment => segment[field].trim())
+    .map(segment => ({ start: segment.start, end: segment.end, text: segment[field] }));
+}
+
+export function cuesToSegments(cues: SubtitleCue[]): TranscriptSegment[] {
+  return cues.map((cue, index) => ({
+    id: `seg-${index}`,
+    start: cue.start,
+    end: cue.end,
+    sourceText: '',
+    translatedText: cue.text.replace(/\n/g, ' '),
+  }));
+}
@@ -0,0 +1,20 @@
+/**
+ * Minimal AudioBuffer for tests: jsdom has no Web Audio implementation.
+ * Samples are silent unless `fill` gives a value per channel and index.
+ */
+export const createBuffer = (
+  numberOfChannels: number,
+  length: number,
+  sampleRate: number,
+  fill?: (channel: number, index: number) => number
+): AudioBuffer => {
+  const channels = Array.from({ length: numberOfChannels }, (_, channel) =>
+    fill ? Float32Array.from({ length }, (_, i) => fill(channel, i)) : new Float32Array(length));
+  return {
+    numberOfChannels,
+    length,
+    sampleRate,
+    duration: length / sampleRate,
+    getChannelData: (channel: number) => channels[channel],
+  } as unknown as AudioBuffer;
+};
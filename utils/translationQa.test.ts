@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { checkSegment, countOpenIssues, estimateSpeechSeconds, mergeQaIssues, recheckSegment } from './translationQa';
+import { TranscriptSegment } from '../types';
+
+const LANGUAGES = { sourceLanguage: 'en', targetLanguage: 'pt-BR' };
+
+const segment = (sourceText: string, translatedText: string, end: number = 5): TranscriptSegment =>
+  ({ id: 'seg-0', start: 0, end, sourceText, translatedText });
+
+const types = (segment: TranscriptSegment) => checkSegment(segment, LANGUAGES).map(issue => issue.type);
+
+describe('estimateSpeechSeconds', () => {
+  it('counts CJK characters slower than letters', () => {
+    expect(estimateSpeechSeconds('abcdefghijklm')).toBeCloseTo(1);
+    expect(estimateSpeechSeconds('你好你好你好')).toBeCloseTo(1);
+    expect(estimateSpeechSeconds('  ... !!')).toBe(0);
+  });
+});
+
+describe('checkSegment', () => {
+  it('passes a faithful translation', () => {
+    expect(types(segment('It costs 1,500 dollars.', 'Custa 1.500 dólares.'))).toEqual([]);
+  });
+
+  it('flags numbers that are missing in the translation', () => {
+    const issues = checkSegment(segment('Take 2 pills at 8 pm.', 'Tome dois comprimidos às 8 da noite.'), LANGUAGES);
+    expect(issues).toEqual([expect.objectContaining({ type: 'number', message: expect.stringContaining(': 2 ') })]);
+  });
+
+  it('flags lines left in the source language', () => {
+    expect(types(segment('Thanks for watching!', 'Thanks for watching'))).toEqual(['untranslated']);
+    // Names and short interjections stay as they are
+    expect(types(segment('Okay!', 'Okay!'))).toEqual([]);
+    expect(checkSegment(segment('Thanks for watching!', 'Thanks for watching'), { sourceLanguage: 'en-US', targetLanguage: 'en-GB' })).toEqual([]);
+  });
+
+  it('flags lines too long for their slot', () => {
+    expect(types(segment('Hi.', 'Olá, seja muito bem-vindo ao nosso canal de tecnologia.', 1))).toEqual(['length']);
+  });
+});
+
+describe('QA issue bookkeeping', () => {
+  it('keeps one issue per type and segment when merging', () => {
+    const merged = mergeQaIssues(
+      { 'seg-0': [{ type: 'number', message: 'local' }] },
+      { 'seg-0': [{ type: 'number', message: 'model' }, { type: 'omission', message: 'a' }, { type: 'omission', message: 'b' }] },
+    );
+    expect(merged['seg-0']).toEqual([{ type: 'number', message: 'local' }, { type: 'omission', message: 'a' }]);
+  });
+
+  it('re-runs local checks after an edit and keeps model findings', () => {
+    const issues = recheckSegment(segment('Take 2 pills.', 'Tome 2 comprimidos.'), [
+      { type: 'number', message: 'Numbers missing' },
+      { type: 'profanity', message: 'model' },
+    ], LANGUAGES);
+    expect(issues).toEqual([{ type: 'profanity', message: 'model' }]);
+  });
+
+  it('keeps a dismissal when the edited segment still has the issue', () => {
+    const issues = recheckSegment(segment('Take 2 pills at 8 pm.', 'Tome dois comprimidos às 8.'), [
+      { type: 'number', message: 'Numbers missing', dismissed: true },
+    ], LANGUAGES);
+    expect(issues).toEqual([expect.objectContaining({ type: 'number', dismissed: true })]);
+  });
+
+  it('counts only issues that were not dismissed', () => {
+    expect(countOpenIssues({
+      'seg-0': [{ type: 'number', message: '' }, { type: 'length', message: '', dismissed: true }],
+      'seg-1': [{ type: 'omission', message: '' }],
+    })).toBe(2);
+    expect(countOpenIssues(undefined)).toBe(0);
+  });
+});
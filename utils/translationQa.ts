@@ -0,0 +1,124 @@
+import { QaIssue, QaIssueType, TranscriptSegment } from '../types';
+
+// Average speaking rates for dubbing: letters and digits in alphabetic
+// scripts, characters in CJK scripts (one syllable each, roughly)
+const LETTERS_PER_SECOND = 13;
+const CJK_CHARS_PER_SECOND = 6;
+// Estimates are rough; only lines clearly over their slot are flagged
+const LENGTH_TOLERANCE = 1.25;
+// Shorter identical lines are usually names or interjections
+const MIN_UNTRANSLATED_LETTERS = 8;
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+const LETTER_PATTERN = /[\p{L}\p{N}]/gu;
+const NUMBER_PATTERN = /\d+(?:[.,]\d+)*/g;
+
+/**
+ * Rough time it takes to speak `text` at a natural pace, in seconds
+ */
+export function estimateSpeechSeconds(text: string): number {
+  const cjk = text.match(CJK_PATTERN)?.length ?? 0;
+  const letters = (text.match(LETTER_PATTERN)?.length ?? 0) - cjk;
+  return letters / LETTERS_PER_SECOND + cjk / CJK_CHARS_PER_SECOND;
+}
+
+// "1,000", "1.000" and "1000" are the same number written in different locales
+const extractNumbers = (text: string): string[] =>
+  (text.match(NUMBER_PATTERN) ?? []).map(n => n.replace(/[.,]/g, ''));
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+const primaryLanguage = (code: string) => code.split('-')[0].toLowerCase();
+
+export interface LocalCheckLanguages {
+  sourceLanguage?: string;
+  targetLanguage: string;
+}
+
+/**
+ * Checks that need no model: dropped numbers, lines left in the source
+ * language and lines too long to be spoken in their slot
+ */
+export function checkSegment(segment: TranscriptSegment, { sourceLanguage, targetLanguage }: LocalCheckLanguages): QaIssue[] {
+  const issues: QaIssue[] = [];
+  const source = segment.sourceText;
+  const target = segment.translatedText;
+
+  if (source) {
+    const targetNumbers = extractNumbers(target);
+    const missing = extractNumbers(source).filter(number => {
+      const index = targetNumbers.indexOf(number);
+      if (index === -1) return true;
+      targetNumbers.splice(index, 1);
+      return false;
+    });
+    if (missing.length > 0) {
+      issues.push({ type: 'number', message: `Numbers missing in translation: ${missing.join(', ')} / 译文缺少数字` });
+    }
+
+    const differentLanguage = !sourceLanguage || primaryLanguage(sourceLanguage) !== primaryLanguage(targetLanguage);
+    const normalized = normalizeText(source);
+    if (differentLanguage && normalized.length >= MIN_UNTRANSLATED_LETTERS && normalized === normalizeText(target)) {
+      issues.push({ type: 'untranslated', message: "Line was left untranslated / 该句未翻译" });
+    }
+  }
+
+  const slot = segment.end - segment.start;
+  const needed = estimateSpeechSeconds(target);
+  if (slot > 0 && needed > slot * LENGTH_TOLERANCE) {
+    issues.push({ type: 'length', message: `About ${needed.toFixed(1)}s of speech for a ${slot.toFixed(1)}s slot / 译文过长` });
+  }
+  return issues;
+}
+
+/**
+ * Runs the local checks on every segment, keyed by segment id
+ */
+export function checkTranslation(segments: TranscriptSegment[], languages: LocalCheckLanguages): Record<string, QaIssue[]> {
+  const issues: Record<string, QaIssue[]> = {};
+  for (const segment of segments) {
+    const found = checkSegment(segment, languages);
+    if (found.length > 0) issues[segment.id] = found;
+  }
+  return issues;
+}
+
+// Issue types checkSegment can find, and so re-check after an edit
+export const LOCAL_ISSUE_TYPES: QaIssueType[] = ['number', 'untranslated', 'length'];
+
+/**
+ * Updates the issues of an edited segment: local checks run again, model
+ * findings stay until a reviewer dismisses them. A local issue that is still
+ * found keeps the reviewer's dismissal.
+ */
+export function recheckSegment(segment: TranscriptSegment, issues: QaIssue[] = [], languages: LocalCheckLanguages): QaIssue[] {
+  const kept = issues.filter(issue => !LOCAL_ISSUE_TYPES.includes(issue.type));
+  const dismissed = new Set(issues.filter(issue => issue.dismissed).map(issue => issue.type));
+  const rechecked = checkSegment(segment, languages)
+    .map(issue => dismissed.has(issue.type) ? { ...issue, dismissed: true } : issue);
+  return [...kept, ...rechecked];
+}
+
+/**
+ * Combines findings per segment; the first finding of a type wins
+ */
+export function mergeQaIssues(...sources: Record<string, QaIssue[]>[]): Record<string, QaIssue[]> {
+  const merged: Record<string, QaIssue[]> = {};
+  for (const source of sources) {
+    for (const [segmentId, issues] of Object.entries(source)) {
+      const combined = merged[segmentId] ?? [];
+      issues.forEach(issue => {
+        if (!combined.some(e => e.type === issue.type)) combined.push(issue);
+      });
+      merged[segmentId] = combined;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Issues a reviewer has not dismissed yet
+ */
+export function countOpenIssues(qaIssues: Record<string, QaIssue[]> = {}): number {
+  return Object.values(qaIssues).reduce((count, issues) => count + issues.filter(issue => !issue.dismissed).length, 0);
+}
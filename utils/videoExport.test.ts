@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { demuxVideoSource, encodeAudioBuffer, supportsOfflineExport } from './videoExport';
+import { createBuffer } from './testAudio';
+
+// jsdom has no WebCodecs; this keeps what AudioData is built from
+class FakeAudioData {
+  constructor(public init: AudioDataInit) {}
+  close() {}
+}
+
+describe('supportsOfflineExport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('needs the WebCodecs classes', () => {
+    expect(supportsOfflineExport()).toBe(false);
+
+    for (const name of ['VideoDecoder', 'VideoEncoder', 'AudioEncoder', 'VideoFrame', 'AudioData']) {
+      vi.stubGlobal(name, class {});
+    }
+    expect(supportsOfflineExport()).toBe(true);
+  });
+});
+
+describe('encodeAudioBuffer', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('splits the buffer into planar one-second chunks, cut at the video end', () => {
+    vi.stubGlobal('AudioData', FakeAudioData);
+    const encoded: AudioDataInit[] = [];
+    const encoder = { encode: (data: AudioData) => encoded.push((data as unknown as FakeAudioData).init) };
+
+    encodeAudioBuffer(encoder, createBuffer(2, 48000 * 3, 48000, (channel, i) => channel * 10 + i), 2.5);
+
+    expect(encoded.map(init => [init.timestamp, init.numberOfFrames])).toEqual([[0, 48000], [1e6, 48000], [2e6, 24000]]);
+    const last = encoded[2];
+    const data = last.data as Float32Array;
+    // Left channel first, then right
+    expect(data[0]).toBe(96000);
+    expect(data[24000]).toBe(96010);
+  });
+});
+
+describe('demuxVideoSource', () => {
+  it('returns null for files that are not MP4', async () => {
+    // mp4box logs the parse error itself
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const webm = new Uint8Array([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x86, 0x81, 0x01]).buffer;
+    expect(await demuxVideoSource(webm)).toBeNull();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
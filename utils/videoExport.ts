@@ -0,0 +1,280 @@
+import { Box, createFile, DataStream, Endianness, ISOFile, MP4BoxBuffer, Sample, SampleEntry, Track } from 'mp4box';
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+import { GainPoint, applyGainEnvelope } from './audioUtils';
+
+// Opus only takes 48 kHz input
+export const EXPORT_SAMPLE_RATE = 48000;
+const EXPORT_CHANNELS = 2;
+const AUDIO_BITRATE = 128_000;
+// Bits per pixel per frame; about 6 Mbit/s for 1080p at 30 fps
+const VIDEO_BITS_PER_PIXEL = 0.1;
+const KEY_FRAME_SECONDS = 2;
+// Decoded frames are large; keep only a few in flight
+const MAX_QUEUED_FRAMES = 8;
+const AUDIO_CHUNK_FRAMES = EXPORT_SAMPLE_RATE;
+
+/**
+ * Whether this browser can export without playing the video in real time
+ */
+export function supportsOfflineExport(): boolean {
+  return typeof VideoDecoder !== 'undefined'
+    && typeof VideoEncoder !== 'undefined'
+    && typeof AudioEncoder !== 'undefined'
+    && typeof VideoFrame !== 'undefined'
+    && typeof AudioData !== 'undefined';
+}
+
+/**
+ * The video track of a source file, demuxed into chunks ready for a VideoDecoder
+ */
+export interface VideoSource {
+  decoderConfig: VideoDecoderConfig;
+  chunks: EncodedVideoChunk[];
+  width: number;
+  height: number;
+  frameRate: number;
+  duration: number;
+}
+
+// The configuration boxes a video sample entry may carry, depending on its codec
+type VideoCodecEntry = SampleEntry & { avcC?: Box; hvcC?: Box; vpcC?: Box; av1C?: Box };
+
+// Codec-specific setup the decoder needs, without the box header
+const getDecoderDescription = (file: ISOFile, trackId: number): Uint8Array | undefined => {
+  const trak = file.getTrackById(trackId);
+  const entries: VideoCodecEntry[] = trak.mdia.minf.stbl.stsd.entries;
+  for (const entry of entries) {
+    const box = entry.avcC || entry.hvcC || entry.vpcC || entry.av1C;
+    if (box) {
+      const stream = new DataStream(undefined, 0, Endianness.BIG_ENDIAN);
+      box.write(stream);
+      return new Uint8Array(stream.buffer, 8);
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Demuxes the video track of an MP4/MOV file. Returns null when the file is
+ * not one, or this browser cannot decode its codec.
+ */
+export async function demuxVideoSource(data: ArrayBuffer): Promise<VideoSource | null> {
+  const file = createFile();
+  const chunks: EncodedVideoChunk[] = [];
+  let track: Track | undefined;
+
+  // With the whole file appended at once, mp4box calls back before flush() returns
+  file.onReady = info => {
+    track = info.videoTracks[0];
+    if (!track) return;
+    file.setExtractionOptions(track.id, undefined, { nbSamples: Infinity });
+    file.start();
+  };
+  file.onSamples = (_id, _user, samples: Sample[]) => {
+    for (const sample of samples) {
+      chunks.push(new EncodedVideoChunk({
+        type: sample.is_sync ? 'key' : 'delta',
+        timestamp: (1e6 * sample.cts) / sample.timescale,
+        duration: (1e6 * sample.duration) / sample.timescale,
+        data: sample.data!,
+      }));
+    }
+  };
+
+  try {
+    file.appendBuffer(MP4BoxBuffer.fromArrayBuffer(data, 0));
+    file.flush();
+  } catch (e) {
+    console.warn("Could not demux the video", e);
+    return null;
+  }
+  if (!track?.video || chunks.length === 0) return null;
+
+  const duration = track.duration / track.timescale;
+  const source: VideoSource = {
+    decoderConfig: {
+      codec: track.codec,
+      codedWidth: track.video.width,
+      codedHeight: track.video.height,
+      description: getDecoderDescription(file, track.id),
+    },
+    chunks,
+    width: track.video.width,
+    height: track.video.height,
+    frameRate: duration > 0 ? chunks.length / duration : 30,
+    duration,
+  };
+  const { supported } = await VideoDecoder.isConfigSupported(source.decoderConfig);
+  return supported ? source : null;
+}
+
+export interface ExportMix {
+  duration: number;
+  dubVolume: number;
+  // Envelope for the original soundtrack; leave out to export the dub only
+  bedEnvelope?: GainPoint[];
+}
+
+/**
+ * Renders the dub and the ducked original soundtrack into one buffer, as fast as the CPU allows
+ */
+export async function mixExportAudio(
+  dub: ArrayBuffer,
+  bed: ArrayBuffer | null,
+  { duration, dubVolume, bedEnvelope }: ExportMix
+): Promise<AudioBuffer> {
+  const ctx = new OfflineAudioContext(EXPORT_CHANNELS, Math.max(1, Math.ceil(duration * EXPORT_SAMPLE_RATE)), EXPORT_SAMPLE_RATE);
+
+  const dubSource = ctx.createBufferSource();
+  dubSource.buffer = await ctx.decodeAudioData(dub);
+  const dubGain = ctx.createGain();
+  dubGain.gain.value = dubVolume;
+  dubSource.connect(dubGain).connect(ctx.destination);
+  dubSource.start(0);
+
+  if (bed && bedEnvelope) {
+    try {
+      const bedSource = ctx.createBufferSource();
+      bedSource.buffer = await ctx.decodeAudioData(bed);
+      const bedGain = ctx.createGain();
+      applyGainEnvelope(bedGain.gain, bedEnvelope, 0);
+      bedSource.connect(bedGain).connect(ctx.destination);
+      bedSource.start(0);
+    } catch (e) {
+      console.warn("Original audio could not be decoded, exporting dub only", e);
+    }
+  }
+  return ctx.startRendering();
+}
+
+/**
+ * Feeds the first `duration` seconds of an AudioBuffer to an encoder in one-second AudioData chunks
+ */
+export function encodeAudioBuffer(encoder: Pick<AudioEncoder, 'encode'>, buffer: AudioBuffer, duration: number): void {
+  const frameCount = Math.min(buffer.length, Math.round(duration * buffer.sampleRate));
+  for (let offset = 0; offset < frameCount; offset += AUDIO_CHUNK_FRAMES) {
+    const length = Math.min(AUDIO_CHUNK_FRAMES, frameCount - offset);
+    const data = new Float32Array(length * buffer.numberOfChannels);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      data.set(buffer.getChannelData(channel).subarray(offset, offset + length), channel * length);
+    }
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: buffer.sampleRate,
+      numberOfFrames: length,
+      numberOfChannels: buffer.numberOfChannels,
+      timestamp: (1e6 * offset) / buffer.sampleRate,
+      data,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+}
+
+export interface OfflineExportOptions {
+  canvas: HTMLCanvasElement;
+  // Draws on top of each frame, e.g. burnt-in subtitles at `time` seconds
+  overlay?: (ctx: CanvasRenderingContext2D, time: number) => void;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+const nextTask = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Re-encodes every frame of the source as VP9 with the mixed audio as Opus and
+ * muxes both into a WebM file. Frames are taken from the decoder one by one, so
+ * nothing is dropped and the export runs as fast as the codecs allow.
+ * Returns null when this browser cannot encode the result.
+ */
+export async function exportVideoOffline(
+  source: VideoSource,
+  audio: AudioBuffer,
+  { canvas, overlay, onProgress, signal }: OfflineExportOptions
+): Promise<Blob | null> {
+  const { width, height, frameRate, duration } = source;
+  const videoConfig: VideoEncoderConfig = {
+    codec: 'vp09.00.10.08',
+    width,
+    height,
+    framerate: frameRate,
+    bitrate: Math.round(width * height * frameRate * VIDEO_BITS_PER_PIXEL),
+  };
+  const audioConfig: AudioEncoderConfig = {
+    codec: 'opus',
+    sampleRate: audio.sampleRate,
+    numberOfChannels: audio.numberOfChannels,
+    bitrate: AUDIO_BITRATE,
+  };
+  const [videoSupport, audioSupport] = await Promise.all([
+    VideoEncoder.isConfigSupported(videoConfig),
+    AudioEncoder.isConfigSupported(audioConfig),
+  ]);
+  if (!videoSupport.supported || !audioSupport.supported) return null;
+  signal?.throwIfAborted();
+
+  const target = new ArrayBufferTarget();
+  const muxer = new Muxer({
+    target,
+    video: { codec: 'V_VP9', width, height, frameRate },
+    audio: { codec: 'A_OPUS', sampleRate: audio.sampleRate, numberOfChannels: audio.numberOfChannels },
+    firstTimestampBehavior: 'offset',
+  });
+
+  // Codec errors arrive through callbacks; the loop below rethrows the first one
+  let failure: unknown = null;
+  const fail = (error: DOMException) => {
+    if (!failure) failure = error;
+  };
+
+  const videoEncoder = new VideoEncoder({ output: (chunk, meta) => muxer.addVideoChunk(chunk, meta), error: fail });
+  videoEncoder.configure(videoConfig);
+  const audioEncoder = new AudioEncoder({ output: (chunk, meta) => muxer.addAudioChunk(chunk, meta), error: fail });
+  audioEncoder.configure(audioConfig);
+
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const keyFrameInterval = Math.max(1, Math.round(frameRate * KEY_FRAME_SECONDS));
+  let frameIndex = 0;
+
+  const decoder = new VideoDecoder({
+    output: frame => {
+      const time = frame.timestamp / 1e6;
+      ctx.drawImage(frame, 0, 0, width, height);
+      overlay?.(ctx, time);
+      const output = new VideoFrame(canvas, { timestamp: frame.timestamp, duration: frame.duration ?? undefined });
+      frame.close();
+      videoEncoder.encode(output, { keyFrame: frameIndex % keyFrameInterval === 0 });
+      output.close();
+      frameIndex++;
+      onProgress?.(duration > 0 ? Math.min(time / duration, 1) : 0);
+    },
+    error: fail,
+  });
+  decoder.configure(source.decoderConfig);
+
+  try {
+    encodeAudioBuffer(audioEncoder, audio, duration);
+    for (const chunk of source.chunks) {
+      if (failure) throw failure;
+      signal?.throwIfAborted();
+      decoder.decode(chunk);
+      while (decoder.decodeQueueSize > MAX_QUEUED_FRAMES || videoEncoder.encodeQueueSize > MAX_QUEUED_FRAMES) {
+        await nextTask();
+      }
+    }
+    await decoder.flush();
+    await videoEncoder.flush();
+    await audioEncoder.flush();
+    if (failure) throw failure;
+    signal?.throwIfAborted();
+
+    muxer.finalize();
+    return new Blob([target.buffer], { type: 'video/webm' });
+  } finally {
+    for (const codec of [decoder, videoEncoder, audioEncoder]) {
+      if (codec.state !== 'closed') codec.close();
+    }
+  }
+}